@@ -1,16 +1,33 @@
 
 import React, { useState, useEffect, useContext, createContext, useMemo, useRef } from 'react';
-import { HashRouter, Routes, Route, useParams, useNavigate, Link } from 'react-router-dom';
-import { works } from './data';
-import { Work, Excerpt, UserAnswers, AnswerData, Question, UserAnswer } from './types';
-import { BookOpenIcon, CheckCircleIcon, ArrowRightIcon, AlertTriangleIcon, TrophyIcon, ClockIcon, CalendarIcon, ChevronDownIcon, XCircleIcon, TrashIcon } from './components/icons';
+import { HashRouter, Routes, Route, useParams, useNavigate, useLocation, Link } from 'react-router-dom';
+import { workIndex, loadWork, loadWorks } from './data';
+import { Work, WorkSummary, Excerpt, UserAnswers, AnswerData, Question, UserAnswer, Verdict, GradingRound, RubricAssessment } from './types';
+import { getScore, ScoreSummary, gradeQuestion, isWithinCharLimit, parseSpanAnswer, toSpanAnswer, TextSpan } from './grading';
+import { countCharacters } from './normalization';
+import { getDescriptiveGrader } from './descriptiveGrader';
+import { checkAnnotations } from './annotations';
+import { FuriganaMode, selectFurigana } from './ruby';
+import { buildGlossary, searchGlossary } from './glossary';
+import { loadAnswers, storeAnswers, readQuarantine, LoadedAnswers } from './answerStorage';
+import { buildAttemptsCsv, collectCsvAttempts, DateRange } from './recordsCsv';
+import { createSubmissionCode, verifySubmissionCode, extractSubmissionCodes, Submission, SubmissionCodeProblem, VerifiedSubmissionCode } from './submissionCode';
+import { createRecordsFile, parseRecordsFile, previewMerge, mergeAnswers, MergePreview, ParsedRecordsFile, RecordsFileProblem } from './recordTransfer';
+import { buildVocabularyDrill, VocabularyDrill, VOCABULARY_MODE_KEY } from './vocabulary';
+import { buildDashboard, StudentSource } from './teacherDashboard';
+import { ErrorBoundary } from './components/ErrorBoundary';
+import { QrCode } from './components/QrCode';
+import { renderTextWithAnnotations, getSelectionSpan } from './components/AnnotatedText';
+import { BookOpenIcon, CheckCircleIcon, ArrowRightIcon, AlertTriangleIcon, TrophyIcon, ClockIcon, CalendarIcon, ChevronDownIcon, XCircleIcon, TrashIcon, SearchIcon } from './components/icons';
 
 // --- Context for Managing Answers ---
 interface AnswersContextType {
   answers: UserAnswers;
-  saveAnswers: (workId: string, excerptId: number, userAnswers: { [key: string]: UserAnswer }, studyTime: number) => void;
-  getAttemptCount: (workId:string, excerptId: number) => number;
+  saveAnswers: (workId: string, excerptId: number | typeof VOCABULARY_MODE_KEY, userAnswers: { [key: string]: UserAnswer }, studyTime: number, rounds: { [key: string]: GradingRound[] }) => void;
+  saveAssessment: (workId: string, excerptId: number, attemptTimestamp: number, questionIndex: number, assessment: Omit<RubricAssessment, 'timestamp'>) => void;
+  getAttemptCount: (workId:string, excerptId: number | typeof VOCABULARY_MODE_KEY) => number;
   clearAllAnswers: () => void;
+  importAnswers: (incoming: UserAnswers) => void; // Adds the attempts not already recorded
 }
 
 const AnswersContext = createContext<AnswersContextType | null>(null);
@@ -33,76 +50,142 @@ const formatTime = (totalSeconds: number): string => {
     return `${minutes}分${seconds}秒`;
 };
 
-const Annotation = ({ text, note }: { text: string; note: string }) => (
-    <span className="relative group">
-      <span className="text-blue-600 font-bold cursor-pointer underline decoration-dotted decoration-blue-600/50">{text}</span>
-      <span className="absolute bottom-full mb-2 w-64 bg-slate-800 text-white text-sm rounded-lg p-3 opacity-0 group-hover:opacity-100 transition-opacity duration-300 pointer-events-none z-10 left-1/2 -translate-x-1/2">
-        {note}
-        <svg className="absolute text-slate-800 h-2 w-full left-0 top-full" x="0px" y="0px" viewBox="0 0 255 255">
-          <polygon className="fill-current" points="0,0 127.5,127.5 255,0"/>
-        </svg>
-      </span>
+// Scores can include partial credit, so show at most one decimal place ("4.5", "5").
+const formatPoints = (points: number): string => {
+    return (Math.round(points * 10) / 10).toString();
+};
+
+const verdictBorderColors: Record<Verdict, string> = {
+    correct: 'border-green-500',
+    partial: 'border-amber-500',
+    incorrect: 'border-red-500',
+    pending: 'border-sky-500',
+};
+
+const SolvedRoundBadge = ({ round }: { round: number }) => (
+    <span className={`text-xs font-bold rounded-full px-3 py-1 flex-shrink-0 ml-4 whitespace-nowrap ${round === 1 ? 'bg-green-100 text-green-700' : 'bg-amber-100 text-amber-700'}`}>
+        {round === 1 ? '1回目で正解' : `${round}回目で正解`}
     </span>
 );
 
-const renderTextWithAnnotations = (text: string, notes: Record<string, string>) => {
-    const parts = text.split(/(※\d+)/g);
-    return parts.map((part, index) => {
-        if (part.match(/※\d+/) && notes[part.replace('※', '')]) {
-            const noteKey = part.replace('※', '');
-            return <Annotation key={index} text={part} note={notes[noteKey]} />;
+const LoadingScreen = () => (
+    <div className="text-center p-8 text-slate-500" role="status">読み込み中…</div>
+);
+
+const PageErrorScreen = ({ onRetry }: { onRetry: () => void }) => (
+    <div className="text-center p-8">
+        <AlertTriangleIcon className="h-12 w-12 mx-auto text-amber-500 mb-2" />
+        <p className="mb-4 text-slate-700">データの読み込みに失敗しました。通信状況を確認して、もう一度お試しください。</p>
+        <div className="flex justify-center gap-4">
+            <button onClick={onRetry} className="bg-sky-500 text-white font-bold py-2 px-4 rounded-lg hover:bg-sky-600">再読み込み</button>
+            <Link to="/" onClick={onRetry} className="bg-slate-500 text-white font-bold py-2 px-4 rounded-lg hover:bg-slate-600">トップに戻る</Link>
+        </div>
+    </div>
+);
+
+// --- Work Loading ---
+// Works are loaded on demand (see data.ts). A failed load is rethrown during render
+// so the page's ErrorBoundary shows PageErrorScreen.
+
+const useLoaded = <T,>(key: string, load: () => Promise<T>): { value: T | undefined; isLoading: boolean } => {
+    const [state, setState] = useState<{ key?: string; value?: T; error?: unknown }>({});
+
+    useEffect(() => {
+        let cancelled = false;
+        load().then(
+            value => { if (!cancelled) setState({ key, value }); },
+            error => { if (!cancelled) setState({ key, error }); },
+        );
+        return () => { cancelled = true; };
+    }, [key]);
+
+    if (state.key === key && state.error !== undefined) throw state.error;
+    const isLoading = state.key !== key;
+    return { value: isLoading ? undefined : state.value, isLoading };
+};
+
+const useWork = (workId: string | undefined): { work: Work | undefined; isLoading: boolean } => {
+    const { value, isLoading } = useLoaded(workId ?? '', () => workId ? loadWork(workId) : Promise.resolve(undefined));
+    return { work: value, isLoading };
+};
+
+const useWorks = (workIds: string[]): { works: Work[]; isLoading: boolean } => {
+    const { value, isLoading } = useLoaded([...workIds].sort().join(','), () => loadWorks(workIds));
+    return { works: value ?? [], isLoading };
+};
+
+// --- Reading Preferences ---
+// Kept per device in localStorage, separately from the answers.
+
+// With allowed set to null, any string is accepted.
+const useDevicePreference = <T extends string,>(key: string, allowed: readonly T[] | null, defaultValue: T): [T, (value: T) => void] => {
+    const [value, setValue] = useState<T>(() => {
+        try {
+            const saved = localStorage.getItem(key);
+            if (saved === null) return defaultValue;
+            return !allowed || allowed.includes(saved as T) ? saved as T : defaultValue;
+        } catch (error) {
+            console.error(`Failed to read ${key} from localStorage`, error);
+            return defaultValue;
         }
-        return part;
     });
+
+    const updateValue = (newValue: T) => {
+        setValue(newValue);
+        try {
+            localStorage.setItem(key, newValue);
+        } catch (error) {
+            console.error(`Failed to save ${key} to localStorage`, error);
+        }
+    };
+
+    return [value, updateValue];
 };
 
-const getScore = (excerpt: Excerpt, answerData: AnswerData) => {
-    if (!excerpt || !answerData) return { correct: 0, total: 0, results: [] };
-  
-    let correctCount = 0;
-    const results = excerpt.questions.map((q, index) => {
-      const userAnswer = answerData.answers[index];
-      let isCorrect = false;
-  
-      if (userAnswer === undefined) {
-          return { isCorrect, userAnswer: "", correctAnswer: q.a };
-      }
-  
-      switch (q.type) {
-        case 'multiple-choice':
-          isCorrect = userAnswer === q.a;
-          break;
-        case 'extraction':
-          if (Array.isArray(q.a)) {
-            isCorrect = typeof userAnswer === 'string' && q.a.map(a => a.trim()).includes(userAnswer.trim());
-          } else {
-            isCorrect = typeof userAnswer === 'string' && userAnswer.trim() === q.a;
-          }
-          break;
-        case 'fill-in-the-blank':
-          if (Array.isArray(userAnswer) && Array.isArray(q.a) && userAnswer.length === q.a.length) {
-            isCorrect = userAnswer.every((ans, i) => typeof ans === 'string' && ans.trim() === q.a[i]);
-          }
-          break;
-      }
-      
-      if (isCorrect) correctCount++;
-      return { isCorrect, userAnswer, correctAnswer: q.a };
-    });
-  
-    return { correct: correctCount, total: excerpt.questions.length, results };
-}
+type ReadingMode = 'horizontal' | 'vertical';
+
+const furiganaModeLabels: Record<FuriganaMode, string> = {
+    always: 'すべて',
+    first: '初出のみ',
+    never: 'なし',
+};
+
+const readingModeLabels: Record<ReadingMode, string> = {
+    horizontal: '横書き',
+    vertical: '縦書き',
+};
+
+const PreferenceSwitch = <T extends string,>({ label, labels, value, onChange }: { label: string; labels: Record<T, string>; value: T; onChange: (value: T) => void }) => (
+    <div role="radiogroup" aria-label={label} className="flex items-center gap-2 text-sm">
+        <span className="text-slate-500">{label}</span>
+        <div className="inline-flex rounded-lg border border-slate-300 overflow-hidden">
+            {(Object.keys(labels) as T[]).map(option => (
+                <button
+                    key={option}
+                    role="radio"
+                    aria-checked={value === option}
+                    onClick={() => onChange(option)}
+                    className={`px-3 py-1 transition-colors ${value === option ? 'bg-sky-500 text-white' : 'bg-white text-slate-600 hover:bg-slate-100'}`}
+                >
+                    {labels[option]}
+                </button>
+            ))}
+        </div>
+    </div>
+);
 
 // --- Page Components ---
 
 const HomePage = () => {
-    const { getAttemptCount } = useAnswers();
+    const { answers } = useAnswers();
     const navigate = useNavigate();
 
-    const getCompletionPercentage = (work: Work) => {
-        if (work.excerpts.length === 0) return 0;
-        const completedCount = work.excerpts.filter(e => getAttemptCount(work.id, e.id) > 0).length;
-        return (completedCount / work.excerpts.length) * 100;
+    // Works are not loaded on this page, so count the excerpts that have attempts instead of looking them up
+    const getCompletionPercentage = (work: WorkSummary) => {
+        if (work.excerptCount === 0) return 0;
+        const completedCount = Object.entries(answers[work.id] || {})
+            .filter(([excerptId, attempts]) => excerptId !== VOCABULARY_MODE_KEY && attempts.length > 0).length;
+        return (Math.min(completedCount, work.excerptCount) / work.excerptCount) * 100;
     };
     
     return (
@@ -110,15 +193,19 @@ const HomePage = () => {
             <header className="text-center mb-10">
                 <h1 className="text-4xl font-bold text-slate-800">読解トレーニング</h1>
                 <p className="text-slate-600 mt-2">青空文庫の名作で、国語の力を伸ばそう。</p>
-                 <div className="mt-6">
+                 <div className="mt-6 flex flex-wrap justify-center gap-4">
                     <Link to="/records" className="inline-flex items-center justify-center bg-white text-slate-700 font-bold py-2 px-6 rounded-lg shadow-md hover:bg-slate-50 transition-colors duration-300">
                         <TrophyIcon className="h-5 w-5 mr-2 text-amber-500" />
                         学習記録を見る
                     </Link>
+                    <Link to="/glossary" className="inline-flex items-center justify-center bg-white text-slate-700 font-bold py-2 px-6 rounded-lg shadow-md hover:bg-slate-50 transition-colors duration-300">
+                        <BookOpenIcon className="h-5 w-5 mr-2 text-sky-500" />
+                        語句集を見る
+                    </Link>
                 </div>
             </header>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                {works.map((work) => {
+                {workIndex.map((work) => {
                     const percentage = getCompletionPercentage(work);
                     return (
                         <div key={work.id} className="bg-white rounded-xl shadow-md overflow-hidden hover:shadow-lg transition-shadow duration-300">
@@ -134,15 +221,18 @@ const HomePage = () => {
                                <div className="w-full bg-slate-200 rounded-full h-2.5 mb-4">
                                   <div className="bg-sky-500 h-2.5 rounded-full" style={{ width: `${percentage}%` }}></div>
                                </div>
-                               <button onClick={() => navigate(`/work/${work.id}`)} disabled={work.excerpts.length === 0} className="w-full flex items-center justify-center bg-sky-500 text-white font-bold py-2 px-4 rounded-lg hover:bg-sky-600 transition-colors duration-300 disabled:bg-slate-400 disabled:cursor-not-allowed">
-                                   {work.excerpts.length > 0 ? '挑戦する' : '準備中'}
-                                   {work.excerpts.length > 0 && <ArrowRightIcon className="h-5 w-5 ml-2" />}
+                               <button onClick={() => navigate(`/work/${work.id}`)} disabled={work.excerptCount === 0} className="w-full flex items-center justify-center bg-sky-500 text-white font-bold py-2 px-4 rounded-lg hover:bg-sky-600 transition-colors duration-300 disabled:bg-slate-400 disabled:cursor-not-allowed">
+                                   {work.excerptCount > 0 ? '挑戦する' : '準備中'}
+                                   {work.excerptCount > 0 && <ArrowRightIcon className="h-5 w-5 ml-2" />}
                                </button>
                            </div>
                         </div>
                     );
                 })}
             </div>
+            <footer className="mt-10 text-center text-sm">
+                <Link to="/teacher" className="text-slate-500 hover:underline">先生用：成績の集計</Link>
+            </footer>
         </div>
     );
 };
@@ -150,7 +240,12 @@ const HomePage = () => {
 const ExcerptListPage = () => {
     const { workId } = useParams<{ workId: string }>();
     const { getAttemptCount } = useAnswers();
-    const work = works.find(w => w.id === workId);
+    const { work, isLoading } = useWork(workId);
+    const hasVocabularyDrill = useMemo(() => work ? buildVocabularyDrill(work).questions.length > 0 : false, [work]);
+
+    if (isLoading) {
+        return <LoadingScreen />;
+    }
 
     if (!work) {
         return <div className="text-center p-8">作品が見つかりません。</div>;
@@ -203,6 +298,18 @@ const ExcerptListPage = () => {
                     )
                 })}
             </div>
+            {hasVocabularyDrill && (
+                <Link to={`/work/${work.id}/vocabulary`} className="mt-6 block bg-sky-50 border border-sky-200 p-4 rounded-lg shadow-sm hover:shadow-md transition-shadow flex items-center justify-between">
+                    <div>
+                        <span className="font-semibold text-sky-800">語句ドリル</span>
+                        <p className="text-slate-600 text-md mt-1">この作品の注釈に出てくる言葉の意味を確かめよう。</p>
+                    </div>
+                    <div className="flex items-center text-sky-600 flex-shrink-0 ml-4">
+                        {getAttemptCount(work.id, VOCABULARY_MODE_KEY) > 0 && <span className="mr-2 font-bold">{getAttemptCount(work.id, VOCABULARY_MODE_KEY)}回 挑戦済</span>}
+                        <ArrowRightIcon className="h-5 w-5" />
+                    </div>
+                </Link>
+            )}
         </div>
     );
 };
@@ -212,33 +319,204 @@ const shuffleArray = <T,>(array: T[]): T[] => {
     return [...array].sort(() => Math.random() - 0.5);
 };
 
+const HighlightAnswerInput = ({ text, value, onCapture, onChange, disabled }: { text: string; value: TextSpan | null; onCapture: () => TextSpan | null; onChange: (span: TextSpan | null) => void; disabled: boolean }) => {
+    const [hasError, setHasError] = useState(false);
+
+    const handleCapture = () => {
+        const span = onCapture();
+        setHasError(span === null);
+        if (span) onChange(span);
+    };
+
+    return (
+        <div className="mt-4 space-y-2">
+            <p className="text-sm text-slate-500">本文の中で答えの部分をなぞって選び、ボタンを押そう。</p>
+            <div className="flex flex-wrap gap-3 items-center">
+                <button
+                    // Keep the text selection alive while the button is pressed
+                    onMouseDown={(e) => e.preventDefault()}
+                    onClick={handleCapture}
+                    disabled={disabled}
+                    className="bg-sky-500 text-white font-bold py-2 px-4 rounded-lg hover:bg-sky-600 transition-colors disabled:bg-slate-400 disabled:cursor-not-allowed"
+                >
+                    選んだ部分を解答にする
+                </button>
+                {value && !disabled && (
+                    <button onClick={() => onChange(null)} className="text-sm text-slate-500 hover:underline">
+                        選び直す
+                    </button>
+                )}
+            </div>
+            {hasError && <p className="text-sm text-red-600">本文の中の文字を選んでからボタンを押してください。</p>}
+            <p className={`p-3 rounded-lg border ${value ? 'bg-yellow-50 border-yellow-300 text-slate-800' : 'bg-slate-50 border-slate-200 text-slate-400'}`}>
+                {value ? text.slice(value.start, value.end) : 'まだ選ばれていません'}
+            </p>
+        </div>
+    );
+};
+
+// Items are tapped from the pool into the answer list, then reordered by dragging
+// or, with a placed item focused, Alt + ↑/↓. Tapping a placed item returns it to the pool.
+const SequenceAnswerInput = ({ items, value, onChange, disabled }: { items: string[]; value: string[]; onChange: (value: string[]) => void; disabled: boolean }) => {
+    const [dragIndex, setDragIndex] = useState<number | null>(null);
+    const placedRefs = useRef<(HTMLButtonElement | null)[]>([]);
+    const pool = items.filter(item => !value.includes(item));
+
+    const moveItem = (from: number, to: number) => {
+        if (to < 0 || to >= value.length || from === to) return;
+        const next = [...value];
+        const [moved] = next.splice(from, 1);
+        next.splice(to, 0, moved);
+        onChange(next);
+    };
+
+    const handlePlacedKeyDown = (e: React.KeyboardEvent, index: number) => {
+        if (!e.altKey || (e.key !== 'ArrowUp' && e.key !== 'ArrowDown')) return;
+        e.preventDefault();
+        const target = e.key === 'ArrowUp' ? index - 1 : index + 1;
+        moveItem(index, target);
+        // Keep focus on the moved item so it can be moved repeatedly
+        requestAnimationFrame(() => placedRefs.current[target]?.focus());
+    };
+
+    return (
+        <div className="mt-4 space-y-4">
+            <ol className="space-y-2" aria-label="並べた順番">
+                {value.map((item, i) => (
+                    <li
+                        key={item}
+                        draggable={!disabled}
+                        onDragStart={() => setDragIndex(i)}
+                        onDragOver={(e) => e.preventDefault()}
+                        onDrop={() => { if (dragIndex !== null) moveItem(dragIndex, i); setDragIndex(null); }}
+                        onDragEnd={() => setDragIndex(null)}
+                        className={`flex items-center gap-3 ${dragIndex === i ? 'opacity-50' : ''}`}
+                    >
+                        <span className="w-8 h-8 flex-shrink-0 flex items-center justify-center rounded-full bg-sky-500 text-white font-bold">{i + 1}</span>
+                        <button
+                            ref={el => { placedRefs.current[i] = el; }}
+                            onClick={() => onChange(value.filter((_, j) => j !== i))}
+                            onKeyDown={(e) => handlePlacedKeyDown(e, i)}
+                            disabled={disabled}
+                            aria-label={`${i + 1}番目：${item}（Alt+矢印キーで移動、Enterで戻す）`}
+                            className="flex-grow p-3 rounded-lg text-left border-2 bg-sky-50 border-sky-300 cursor-move transition-colors hover:bg-sky-100 disabled:opacity-70 disabled:cursor-not-allowed"
+                        >
+                            {item}
+                        </button>
+                    </li>
+                ))}
+                {Array.from({ length: items.length - value.length }).map((_, i) => (
+                    <li key={`empty-${i}`} className="flex items-center gap-3">
+                        <span className="w-8 h-8 flex-shrink-0 flex items-center justify-center rounded-full bg-slate-200 text-slate-500 font-bold">{value.length + i + 1}</span>
+                        <span className="flex-grow p-3 rounded-lg border-2 border-dashed border-slate-200 text-slate-400">ここに並べる</span>
+                    </li>
+                ))}
+            </ol>
+            {pool.length > 0 && (
+                <div>
+                    <p className="text-sm text-slate-500 mb-2">起きた順にタップしよう</p>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                        {pool.map(item => (
+                            <button
+                                key={item}
+                                onClick={() => onChange([...value, item])}
+                                disabled={disabled}
+                                className="p-3 rounded-lg text-left transition-all duration-200 border-2 bg-slate-100 hover:bg-sky-100 hover:border-sky-300 border-slate-200 disabled:opacity-70 disabled:cursor-not-allowed"
+                            >
+                                {item}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+const DescriptiveAnswerInput = ({ question, value, onChange, disabled }: { question: Question; value: string; onChange: (value: string) => void; disabled: boolean }) => {
+    const length = countCharacters(value);
+    const { min, max } = question.charLimit ?? {};
+    const isOver = max !== undefined && length > max;
+    const isUnder = min !== undefined && length > 0 && length < min;
+
+    return (
+        <div className="mt-4">
+            <textarea
+                value={value}
+                onChange={(e) => onChange(e.target.value)}
+                disabled={disabled}
+                rows={5}
+                className="w-full p-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-sky-500 focus:border-sky-500 transition disabled:bg-slate-100 leading-relaxed"
+                placeholder="自分の言葉で書いてみよう"
+            />
+            <div className="flex justify-between text-sm mt-1">
+                <span className="text-slate-500">
+                    {question.charLimit && `${min !== undefined ? `${min}字以上` : ''}${max}字以内`}
+                </span>
+                <span className={`font-semibold ${isOver || isUnder ? 'text-red-600' : 'text-slate-600'}`}>
+                    {length}{max !== undefined && ` / ${max}`}字
+                    {isOver && '（字数オーバー）'}
+                    {isUnder && '（字数不足）'}
+                </span>
+            </div>
+        </div>
+    );
+};
+
 type ShuffledQuestion = Question & { originalIndex: number };
 
+// "該当するものをすべて選びなさい": a multiple-choice question whose answer is a list of options
+const isMultiSelect = (q: Question): boolean => q.type === 'multiple-choice' && Array.isArray(q.a);
+
+const getEmptyAnswer = (q: Question): UserAnswer => {
+    if (q.type === 'fill-in-the-blank' && Array.isArray(q.a)) return Array(q.a.length).fill('');
+    if (q.type === 'sequence' || q.type === 'highlight' || isMultiSelect(q)) return [];
+    return '';
+};
+
+// 'submitted': a written answer that has been handed in and is assessed on the result page
+type QuestionState = 'unanswered' | 'correct' | 'incorrect' | 'submitted';
+
 
 const QuizPage = () => {
     const { workId, excerptId } = useParams<{ workId: string, excerptId: string }>();
     const navigate = useNavigate();
     const { saveAnswers } = useAnswers();
 
-    const work = useMemo(() => works.find(w => w.id === workId), [workId]);
+    const { work, isLoading } = useWork(workId);
     const excerpt = useMemo(() => work?.excerpts.find(e => e.id.toString() === excerptId), [work, excerptId]);
     const excerptIndex = useMemo(() => work?.excerpts.findIndex(e => e.id.toString() === excerptId) ?? -1, [work, excerptId]);
+    const annotationCheck = useMemo(() => excerpt ? checkAnnotations(excerpt.text, excerpt.notes) : null, [excerpt]);
+    const [furiganaMode, setFuriganaMode] = useDevicePreference<FuriganaMode>('furiganaMode', ['always', 'first', 'never'], 'always');
+    const [readingMode, setReadingMode] = useDevicePreference<ReadingMode>('readingMode', ['horizontal', 'vertical'], 'horizontal');
+    const displayedFurigana = useMemo(() => excerpt ? selectFurigana(excerpt.text, excerpt.furigana, furiganaMode) : [], [excerpt, furiganaMode]);
 
     // --- State for the new quiz flow ---
     const [userAnswers, setUserAnswers] = useState<{ [key: string]: UserAnswer }>({});
     const [shuffledQuestions, setShuffledQuestions] = useState<ShuffledQuestion[]>([]);
     const [startTime, setStartTime] = useState(0);
     const [attemptNumber, setAttemptNumber] = useState(0); // How many times the user has clicked "grade"
-    const [questionStates, setQuestionStates] = useState<{ [key: string]: 'unanswered' | 'correct' | 'incorrect' }>({});
+    const [questionStates, setQuestionStates] = useState<{ [key: string]: QuestionState }>({});
+    const [roundHistory, setRoundHistory] = useState<{ [key: string]: GradingRound[] }>({}); // Keyed by display index
+    const excerptTextRef = useRef<HTMLParagraphElement>(null);
 
     // --- Effects ---
+    useEffect(() => {
+        if (!excerpt || !annotationCheck) return;
+        const { missingNotes, orphanedNotes } = annotationCheck;
+        if (missingNotes.length > 0 || orphanedNotes.length > 0) {
+            console.warn(`Annotation mismatch in ${workId} / excerpt ${excerpt.id}`, { missingNotes, orphanedNotes });
+        }
+    }, [excerpt, annotationCheck, workId]);
+
     useEffect(() => {
         if (excerpt) {
             // Shuffle questions and options
             const questionsWithOriginalIndex = excerpt.questions.map((q, index) => ({ ...q, originalIndex: index }));
             const shuffled = shuffleArray(questionsWithOriginalIndex);
             const questionsWithShuffledOptions = shuffled.map(q =>
-                (q.type === 'multiple-choice' && q.options) ? { ...q, options: shuffleArray(q.options) } : q
+                (q.type === 'multiple-choice' && q.options) ? { ...q, options: shuffleArray(q.options) } :
+                (q.type === 'sequence' && Array.isArray(q.a)) ? { ...q, options: shuffleArray(q.a) } : q
             );
             setShuffledQuestions(questionsWithShuffledOptions);
 
@@ -247,14 +525,11 @@ const QuizPage = () => {
             const initialStates: { [key: string]: 'unanswered' } = {};
             questionsWithShuffledOptions.forEach((q, i) => {
                 initialStates[i] = 'unanswered';
-                if (q.type === 'fill-in-the-blank' && Array.isArray(q.a)) {
-                    initialAnswers[i] = Array(q.a.length).fill('');
-                } else {
-                    initialAnswers[i] = '';
-                }
+                initialAnswers[i] = getEmptyAnswer(q);
             });
             setUserAnswers(initialAnswers);
             setQuestionStates(initialStates);
+            setRoundHistory({});
             setAttemptNumber(0);
             setStartTime(Date.now());
         }
@@ -279,34 +554,26 @@ const QuizPage = () => {
         });
     };
 
-    const checkAnswerCorrectness = (question: Question, userAnswer: UserAnswer): boolean => {
-        switch (question.type) {
-            case 'multiple-choice':
-                return userAnswer === question.a;
-            case 'extraction':
-                if (Array.isArray(question.a)) {
-                    return typeof userAnswer === 'string' && question.a.map(a => a.trim()).includes(userAnswer.trim());
-                } else {
-                    return typeof userAnswer === 'string' && userAnswer.trim() === question.a;
-                }
-            case 'fill-in-the-blank':
-                if (Array.isArray(userAnswer) && Array.isArray(question.a) && userAnswer.length === question.a.length) {
-                    return userAnswer.every((ans, i) => typeof ans === 'string' && ans.trim() === question.a[i]);
-                }
-                return false;
-            default:
-                return false;
-        }
-    };
-
     // --- Derived State ---
     const areAllInputsFilled = useMemo(() => {
         if (!shuffledQuestions.length) return false;
         return shuffledQuestions.every((q, index) => {
-            if (questionStates[index] === 'correct') {
-                return true; // Already correct, no need to fill
+            if (questionStates[index] === 'correct' || questionStates[index] === 'submitted') {
+                return true; // Already correct or handed in, no need to fill
             }
             const answer = userAnswers[index];
+            if (q.type === 'descriptive') {
+                return typeof answer === 'string' && answer.trim() !== '' && isWithinCharLimit(q, answer);
+            }
+            if (q.type === 'highlight') {
+                return parseSpanAnswer(answer) !== null;
+            }
+            if (isMultiSelect(q)) {
+                return Array.isArray(answer) && answer.length > 0;
+            }
+            if (q.type === 'sequence') {
+                return Array.isArray(answer) && Array.isArray(q.a) && answer.length === q.a.length;
+            }
             if (q.type === 'fill-in-the-blank') {
                 return Array.isArray(answer) && answer.every(a => typeof a === 'string' && a.trim() !== '');
             }
@@ -316,7 +583,7 @@ const QuizPage = () => {
 
     const isFinished = useMemo(() => {
         if (attemptNumber === 0) return false;
-        const allCorrect = shuffledQuestions.every((_, i) => questionStates[i] === 'correct');
+        const allCorrect = shuffledQuestions.every((_, i) => questionStates[i] === 'correct' || questionStates[i] === 'submitted');
         return allCorrect || attemptNumber >= 3;
     }, [attemptNumber, questionStates, shuffledQuestions]);
 
@@ -324,49 +591,59 @@ const QuizPage = () => {
     const handleGradeAnswers = () => {
         const newStates = { ...questionStates };
         const newAnswers = { ...userAnswers };
+        const newHistory = { ...roundHistory };
+        const gradedAt = Date.now();
 
         shuffledQuestions.forEach((q, index) => {
-            if (newStates[index] !== 'correct') { // Only grade non-correct questions
-                const isCorrect = checkAnswerCorrectness(q, userAnswers[index]);
-                newStates[index] = isCorrect ? 'correct' : 'incorrect';
+            if (newStates[index] !== 'correct' && newStates[index] !== 'submitted') { // Only grade non-correct questions
+                const { isCorrect, verdict } = gradeQuestion(q, userAnswers[index], { excerptText: excerpt.text });
+                newStates[index] = isCorrect ? 'correct' : verdict === 'pending' ? 'submitted' : 'incorrect';
+                newHistory[index] = [...(newHistory[index] || []), { answer: userAnswers[index], verdict, timestamp: gradedAt }];
                 
                 // If incorrect, reset the user's answer for that question for the next attempt
-                if (!isCorrect) {
-                    if (q.type === 'fill-in-the-blank' && Array.isArray(q.a)) {
-                        newAnswers[index] = Array(q.a.length).fill('');
-                    } else {
-                        newAnswers[index] = '';
-                    }
+                if (newStates[index] === 'incorrect') {
+                    newAnswers[index] = getEmptyAnswer(q);
                 }
             }
         });
         
         setQuestionStates(newStates);
         setUserAnswers(newAnswers);
+        setRoundHistory(newHistory);
         setAttemptNumber(prev => prev + 1);
     };
 
     const handleFinishQuiz = () => {
         const orderedAnswers: { [key: string]: UserAnswer } = {};
+        const orderedRounds: { [key: string]: GradingRound[] } = {};
         shuffledQuestions.forEach((q, displayIndex) => {
-            orderedAnswers[q.originalIndex] = userAnswers[displayIndex] || (q.type === 'fill-in-the-blank' ? [] : '');
+            const history = roundHistory[displayIndex] || [];
+            // Incorrect answers are cleared between rounds, so keep what was last submitted
+            const lastSubmitted = history.length > 0 ? history[history.length - 1].answer : undefined;
+            orderedAnswers[q.originalIndex] = lastSubmitted || userAnswers[displayIndex] || getEmptyAnswer(q);
+            orderedRounds[q.originalIndex] = history;
         });
 
         const studyTimeInSeconds = Math.round((Date.now() - startTime) / 1000);
-        saveAnswers(work.id, excerpt.id, orderedAnswers, studyTimeInSeconds > 0 ? studyTimeInSeconds : 1);
+        saveAnswers(work.id, excerpt.id, orderedAnswers, studyTimeInSeconds > 0 ? studyTimeInSeconds : 1, orderedRounds);
         navigate(`/work/${workId}/excerpt/${excerptId}/result`);
     };
 
-    const getStatusBorderColor = (status: 'unanswered' | 'correct' | 'incorrect') => {
+    const getStatusBorderColor = (status: QuestionState) => {
         if (attemptNumber === 0) return 'border-transparent';
         switch (status) {
             case 'correct': return 'border-green-500';
+            case 'submitted': return 'border-sky-500';
             case 'incorrect': return 'border-red-500';
             default: return 'border-transparent';
         }
     };
     
     // --- Render ---
+    if (isLoading) {
+        return <LoadingScreen />;
+    }
+
     if (!work || !excerpt) {
         return <div className="text-center p-8">問題が見つかりません。</div>;
     }
@@ -380,16 +657,33 @@ const QuizPage = () => {
             </header>
 
             <div className="bg-white p-6 rounded-lg shadow-md mb-8">
-                <h2 className="text-xl font-bold mb-4 text-slate-700">本文</h2>
-                <p className="text-slate-800 leading-loose whitespace-pre-wrap">
-                    {renderTextWithAnnotations(excerpt.text, excerpt.notes)}
+                <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                    <h2 className="text-xl font-bold text-slate-700">本文</h2>
+                    <div className="flex flex-wrap items-center gap-4">
+                        <PreferenceSwitch label="表示" labels={readingModeLabels} value={readingMode} onChange={setReadingMode} />
+                        {excerpt.furigana && excerpt.furigana.length > 0 &&
+                            <PreferenceSwitch label="ふりがな" labels={furiganaModeLabels} value={furiganaMode} onChange={setFuriganaMode} />
+                        }
+                    </div>
+                </div>
+                {/* Vertical text runs right to left, so the panel itself is vertical-rl: it then starts
+                    scrolled to the first column and scrolls horizontally on narrow screens.
+                    line-break: strict keeps 、。 and small kana from starting a column. */}
+                <p
+                    ref={excerptTextRef}
+                    className={`text-slate-800 leading-loose whitespace-pre-wrap ${readingMode === 'vertical' ? '[writing-mode:vertical-rl] [line-break:strict] h-[28rem] max-h-[70vh] overflow-x-auto pb-2 tracking-wider' : ''}`}
+                >
+                    {renderTextWithAnnotations(excerpt.text, excerpt.notes, displayedFurigana, readingMode === 'vertical')}
                 </p>
                 {Object.keys(excerpt.notes).length > 0 &&
                     <div className="mt-6 border-t pt-4">
                         <h3 className="font-semibold text-slate-600 mb-2">注釈</h3>
                         <ul className="list-disc list-inside text-sm text-slate-600">
                             {Object.entries(excerpt.notes).map(([key, value]) => (
-                                <li key={key}><span className="font-bold">※{key}:</span> {value}</li>
+                                annotationCheck?.orphanedNotes.includes(key)
+                                    // No marker in the text refers to this note, so its number would mean nothing
+                                    ? <li key={key}>{value}</li>
+                                    : <li key={key} id={`note-${key}`} tabIndex={-1} className="rounded scroll-mt-4 focus:outline-none focus:bg-yellow-100 transition-colors"><span className="font-bold">※{key}:</span> {value}</li>
                             ))}
                         </ul>
                     </div>
@@ -399,7 +693,7 @@ const QuizPage = () => {
             <div className="space-y-6">
                 {shuffledQuestions.map((q, index) => {
                     const status = questionStates[index] || 'unanswered';
-                    const isLocked = status === 'correct';
+                    const isLocked = status === 'correct' || status === 'submitted';
 
                     return (
                         <div key={q.originalIndex} className={`bg-white p-6 rounded-lg shadow-md border-l-4 transition-colors ${getStatusBorderColor(status)}`}>
@@ -407,7 +701,30 @@ const QuizPage = () => {
                                 問 {index + 1}: {q.q}
                             </p>
                             
-                            {q.type === 'multiple-choice' && (
+                            {q.type === 'multiple-choice' && isMultiSelect(q) && (
+                                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mt-4">
+                                    {q.options?.map(option => {
+                                        const selected = Array.isArray(userAnswers[index]) ? userAnswers[index] as string[] : [];
+                                        const isSelected = selected.includes(option);
+                                        return (
+                                            <label
+                                                key={option}
+                                                className={`p-3 rounded-lg flex items-start gap-3 transition-all duration-200 border-2 ${isLocked ? 'opacity-70 cursor-not-allowed' : 'cursor-pointer'} ${isSelected ? 'bg-sky-500 border-sky-600 text-white font-bold shadow-md' : 'bg-slate-100 hover:bg-sky-100 hover:border-sky-300 border-slate-200'}`}
+                                            >
+                                                <input
+                                                    type="checkbox"
+                                                    checked={isSelected}
+                                                    onChange={() => handleAnswerChange(index, isSelected ? selected.filter(o => o !== option) : [...selected, option])}
+                                                    disabled={isLocked}
+                                                    className="mt-1 h-4 w-4 flex-shrink-0 accent-sky-700"
+                                                />
+                                                <span>{option}</span>
+                                            </label>
+                                        )
+                                    })}
+                                </div>
+                            )}
+                            {q.type === 'multiple-choice' && !isMultiSelect(q) && (
                                 <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mt-4">
                                     {q.options?.map(option => {
                                         const isSelected = userAnswers[index] === option;
@@ -434,6 +751,31 @@ const QuizPage = () => {
                                     placeholder="本文から抜き出して入力"
                                 />
                             )}
+                            {q.type === 'descriptive' && (
+                                <DescriptiveAnswerInput
+                                    question={q}
+                                    value={(userAnswers[index] as string) || ''}
+                                    onChange={(value) => handleAnswerChange(index, value)}
+                                    disabled={isLocked}
+                                />
+                            )}
+                            {q.type === 'highlight' && (
+                                <HighlightAnswerInput
+                                    text={excerpt.text}
+                                    value={parseSpanAnswer(userAnswers[index])}
+                                    onCapture={() => getSelectionSpan(excerptTextRef.current)}
+                                    onChange={(span) => handleAnswerChange(index, span ? toSpanAnswer(span) : [])}
+                                    disabled={isLocked}
+                                />
+                            )}
+                            {q.type === 'sequence' && (
+                                <SequenceAnswerInput
+                                    items={q.options || []}
+                                    value={Array.isArray(userAnswers[index]) ? userAnswers[index] as string[] : []}
+                                    onChange={(value) => handleAnswerChange(index, value)}
+                                    disabled={isLocked}
+                                />
+                            )}
                             {q.type === 'fill-in-the-blank' && Array.isArray(q.a) && (
                                 <div className="flex flex-wrap gap-4 items-center mt-4">
                                     {q.a.map((_, blankIndex) => (
@@ -476,22 +818,109 @@ const QuizPage = () => {
     );
 };
 
+const DescriptiveResult = ({ question, userAnswer, outOfLength, assessment, onAssess }: { question: Question; userAnswer: string; outOfLength: boolean; assessment?: RubricAssessment; onAssess: (assessment: Omit<RubricAssessment, 'timestamp'>) => void }) => {
+    const covered = assessment?.covered ?? [];
+    const [isGrading, setIsGrading] = useState(false);
+    const [graderError, setGraderError] = useState<string | null>(null);
+
+    const toggleRubricPoint = (pointIndex: number) => {
+        const next = covered.includes(pointIndex) ? covered.filter(i => i !== pointIndex) : [...covered, pointIndex].sort((a, b) => a - b);
+        // Adjusting the ticks makes it the student's own assessment, but keeps the grader's feedback visible
+        onAssess({ covered: next, assessedBy: 'self', feedback: assessment?.feedback });
+    };
+
+    const handleAutoGrade = async () => {
+        if (!question.rubric) return;
+        const grader = getDescriptiveGrader();
+        setIsGrading(true);
+        setGraderError(null);
+        try {
+            const result = await grader.grade({ question, rubric: question.rubric, answer: userAnswer });
+            onAssess({ covered: result.covered, assessedBy: 'ai', grader: grader.name, feedback: result.feedback });
+        } catch (error) {
+            console.error("Failed to grade the answer automatically", error);
+            setGraderError('自動採点に失敗しました。自分でチェックしてみよう。');
+        } finally {
+            setIsGrading(false);
+        }
+    };
+
+    return (
+        <div className="p-4 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                    <h3 className="font-semibold text-blue-700 mb-1">あなたの解答（{countCharacters(userAnswer)}字）</h3>
+                    <p className="text-slate-700 whitespace-pre-wrap p-3 bg-blue-50 rounded-md">{userAnswer || "（無解答）"}</p>
+                    {outOfLength && (
+                        <p className="text-xs text-red-600 mt-1">※指定された字数の範囲に収まっていません。</p>
+                    )}
+                </div>
+                <div>
+                    <h3 className="font-semibold text-green-800 mb-1">模範解答（{countCharacters(Array.isArray(question.a) ? question.a.join('') : question.a)}字）</h3>
+                    <p className="text-slate-800 whitespace-pre-wrap p-3 bg-green-50 rounded-md">{Array.isArray(question.a) ? question.a.join('\n') : question.a}</p>
+                </div>
+            </div>
+            {question.rubric && question.rubric.length > 0 && userAnswer.trim() !== '' && (
+                <div className="pt-2">
+                    <h3 className="font-semibold text-slate-700 mb-1">自己採点</h3>
+                    <div className="flex justify-between items-start gap-4 mb-2">
+                        <p className="text-sm text-slate-500">模範解答と見比べて、自分の解答に書けているポイントにチェックしよう。</p>
+                        <button
+                            onClick={handleAutoGrade}
+                            disabled={isGrading}
+                            className="flex-shrink-0 bg-white border border-sky-500 text-sky-600 font-bold py-1 px-3 rounded-lg text-sm hover:bg-sky-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            {isGrading ? '採点中…' : '自動採点'}
+                        </button>
+                    </div>
+                    {graderError && <p className="text-sm text-red-600 mb-2">{graderError}</p>}
+                    {assessment?.feedback && (
+                        <p className="text-sm text-slate-700 bg-amber-50 rounded-md p-3 mb-2 whitespace-pre-wrap">{assessment.feedback}</p>
+                    )}
+                    <ul className="space-y-2">
+                        {question.rubric.map((point, i) => (
+                            <li key={i}>
+                                <label className="flex items-start gap-2 p-2 rounded-md hover:bg-slate-50 cursor-pointer text-slate-700">
+                                    <input
+                                        type="checkbox"
+                                        checked={covered.includes(i)}
+                                        onChange={() => toggleRubricPoint(i)}
+                                        className="mt-1 h-4 w-4 accent-sky-600"
+                                    />
+                                    <span>{point}</span>
+                                </label>
+                            </li>
+                        ))}
+                    </ul>
+                    <p className="text-right font-semibold text-slate-700 mt-2">
+                        {assessment ? `${covered.length} / ${question.rubric.length} ポイント${assessment.assessedBy === 'ai' ? '（自動採点）' : ''}` : '未採点'}
+                    </p>
+                </div>
+            )}
+        </div>
+    );
+};
+
 const ResultPage = () => {
     const { workId, excerptId } = useParams<{ workId: string, excerptId: string }>();
-    const { answers } = useAnswers();
+    const { answers, saveAssessment } = useAnswers();
     const navigate = useNavigate();
     
-    const work = useMemo(() => works.find(w => w.id === workId), [workId]);
+    const { work, isLoading } = useWork(workId);
     const excerpt = useMemo(() => work?.excerpts.find(e => e.id.toString() === excerptId), [work, excerptId]);
     
     const answerAttempts = (workId && excerptId) ? answers[workId]?.[excerptId] : [];
     const answerData = answerAttempts && answerAttempts.length > 0 ? answerAttempts[answerAttempts.length - 1] : undefined;
 
-    const { correct, total, results } = useMemo(() => {
-        if (!excerpt || !answerData) return { correct: 0, total: 0, results: [] };
+    const { points, total, firstTryCorrect, firstTryTotal, results } = useMemo(() => {
+        if (!excerpt || !answerData) return { points: 0, total: 0, firstTryCorrect: null, firstTryTotal: 0, results: [] };
         return getScore(excerpt, answerData);
     }, [excerpt, answerData]);
 
+    if (isLoading) {
+        return <LoadingScreen />;
+    }
+
     if (!work || !excerpt || !answerData) {
         return (
           <div className="text-center p-8">
@@ -511,10 +940,15 @@ const ResultPage = () => {
             <div className="bg-white rounded-xl shadow-lg p-6 mb-8 text-center">
                 <p className="text-slate-600">結果</p>
                 <p className="text-6xl font-bold text-sky-600 my-2">
-                    {correct}<span className="text-3xl text-slate-500 font-medium"> / {total} 問</span>
+                    {formatPoints(points)}<span className="text-3xl text-slate-500 font-medium"> / {total} 問</span>
                 </p>
+                {firstTryCorrect !== null && (
+                    <p className="text-slate-600 mb-2">
+                        1回目の採点で正解：<span className="font-bold text-slate-800">{firstTryCorrect} / {firstTryTotal} 問</span>
+                    </p>
+                )}
                 <p className="text-2xl font-semibold text-amber-500">
-                     { correct === total ? '素晴らしい、全問正解です！' : 'よくがんばりました！'}
+                     { firstTryTotal > 0 && firstTryCorrect === firstTryTotal ? '素晴らしい、一発で全問正解です！' : points === total ? '素晴らしい、全問正解です！' : 'よくがんばりました！'}
                 </p>
             </div>
             
@@ -522,22 +956,43 @@ const ResultPage = () => {
                 {excerpt.questions.map((q, index) => {
                     const result = results[index];
                     if (!result) return null;
-                    const { isCorrect, userAnswer, correctAnswer } = result;
+                    const { verdict, reason, isCorrect, userAnswer, correctAnswer, solvedInRound } = result;
                     
-                    const formatAnswer = (ans: UserAnswer) => Array.isArray(ans) ? ans.join(', ') : ans;
+                    const formatAnswer = (ans: UserAnswer) => Array.isArray(ans) ? ans.join(q.type === 'sequence' ? ' → ' : ', ') : ans;
+                    const selectedSpan = q.type === 'highlight' ? parseSpanAnswer(userAnswer) : null;
+                    const displayedUserAnswer = q.type === 'highlight'
+                        ? (selectedSpan ? excerpt.text.slice(selectedSpan.start, selectedSpan.end) : '')
+                        : formatAnswer(userAnswer);
 
                     return (
-                        <div key={index} className={`bg-white rounded-lg shadow-md overflow-hidden border-l-4 ${isCorrect ? 'border-green-500' : 'border-red-500'}`}>
+                        <div key={index} className={`bg-white rounded-lg shadow-md overflow-hidden border-l-4 ${verdictBorderColors[verdict]}`}>
                             <div className="p-4 bg-slate-50 border-b flex justify-between items-start">
                                 <p className="font-bold text-slate-800 flex-grow">問 {index + 1}: {q.q}</p>
+                                {solvedInRound !== null && <SolvedRoundBadge round={solvedInRound} />}
                                 {isCorrect ? 
                                     <CheckCircleIcon className="h-8 w-8 text-green-500 flex-shrink-0 ml-4" /> : 
+                                 verdict === 'partial' ?
+                                    <span className="text-sm font-bold text-amber-600 bg-amber-100 rounded-full px-3 py-1 flex-shrink-0 ml-4">部分正解</span> :
+                                 verdict === 'pending' ?
+                                    <span className="text-sm font-bold text-sky-600 bg-sky-100 rounded-full px-3 py-1 flex-shrink-0 ml-4 whitespace-nowrap">記述</span> :
                                     <XCircleIcon className="h-8 w-8 text-red-500 flex-shrink-0 ml-4" />}
                             </div>
+                            {q.type === 'descriptive' ? (
+                                <DescriptiveResult
+                                    question={q}
+                                    userAnswer={typeof userAnswer === 'string' ? userAnswer : ''}
+                                    outOfLength={reason === 'out-of-length'}
+                                    assessment={answerData.assessments?.[index]}
+                                    onAssess={(assessment) => saveAssessment(work.id, excerpt.id, answerData.timestamp, index, assessment)}
+                                />
+                            ) : (
                             <div className="p-4 space-y-3">
                                 <div >
                                     <h3 className="font-semibold text-blue-700 mb-1">あなたの解答</h3>
-                                    <p className="text-slate-700 whitespace-pre-wrap p-3 bg-blue-50 rounded-md">{formatAnswer(userAnswer) || "（無解答）"}</p>
+                                    <p className="text-slate-700 whitespace-pre-wrap p-3 bg-blue-50 rounded-md">{displayedUserAnswer || "（無解答）"}</p>
+                                    {reason === 'normalized-match' && (
+                                        <p className="text-xs text-slate-500 mt-1">※全角・半角や句読点などの表記の違いを除いて正解と判定しました。</p>
+                                    )}
                                 </div>
                                 {!isCorrect && (
                                     <div>
@@ -546,6 +1001,7 @@ const ResultPage = () => {
                                     </div>
                                 )}
                             </div>
+                            )}
                         </div>
                     );
                 })}
@@ -563,22 +1019,82 @@ const ResultPage = () => {
     );
 };
 
+// The class key is given out by the teacher; the name and key are kept on the device so they
+// only have to be typed once.
+const SubmissionCodeCard = ({ submission }: { submission: Omit<Submission, 'studentName'> }) => {
+    const [studentName, setStudentName] = useDevicePreference<string>('studentName', null, '');
+    const [classKey, setClassKey] = useDevicePreference<string>('classKey', null, '');
+    const [code, setCode] = useState('');
+    const [isCopied, setIsCopied] = useState(false);
+
+    useEffect(() => {
+        setCode('');
+        if (!studentName.trim() || !classKey) return;
+        let cancelled = false;
+        createSubmissionCode({ ...submission, studentName: studentName.trim() }, classKey)
+            .then(newCode => { if (!cancelled) setCode(newCode); })
+            .catch(error => console.error("Failed to create the submission code", error));
+        return () => { cancelled = true; };
+    }, [studentName, classKey, submission.workId, submission.excerptId, submission.timestamp]);
+
+    const handleCopy = async () => {
+        try {
+            await navigator.clipboard.writeText(code);
+            setIsCopied(true);
+            setTimeout(() => setIsCopied(false), 2000);
+        } catch (error) {
+            console.error("Failed to copy the submission code", error);
+        }
+    };
+
+    return (
+        <div className="mt-6 border-t pt-4">
+            <h2 className="font-bold text-slate-700 mb-3">提出コード</h2>
+            <div className="grid grid-cols-2 gap-3 text-sm">
+                <label className="flex flex-col text-slate-600">
+                    名前
+                    <input value={studentName} onChange={(e) => setStudentName(e.target.value)} className="mt-1 p-2 border border-slate-300 rounded-lg" placeholder="出席番号と名前" />
+                </label>
+                <label className="flex flex-col text-slate-600">
+                    クラスキー
+                    <input value={classKey} onChange={(e) => setClassKey(e.target.value)} className="mt-1 p-2 border border-slate-300 rounded-lg" placeholder="先生から聞いたキー" autoComplete="off" />
+                </label>
+            </div>
+            {code ? (
+                <div className="mt-4 text-center">
+                    <QrCode text={code} className="w-48 h-48 mx-auto" label="提出コードのQRコード" />
+                    <p className="mt-3 font-mono text-xs break-all bg-slate-100 p-2 rounded select-all">{code}</p>
+                    <button onClick={handleCopy} className="mt-2 text-sm text-sky-600 hover:underline">
+                        {isCopied ? 'コピーしました' : 'コードをコピー'}
+                    </button>
+                </div>
+            ) : (
+                <p className="mt-3 text-xs text-slate-500">名前とクラスキーを入れると、提出コードが作られます。</p>
+            )}
+        </div>
+    );
+};
+
 const SubmissionPage = () => {
     const { workId, excerptId } = useParams<{ workId: string; excerptId: string }>();
     const { answers } = useAnswers();
     const navigate = useNavigate();
 
-    const work = useMemo(() => works.find(w => w.id === workId), [workId]);
+    const { work, isLoading } = useWork(workId);
     const excerpt = useMemo(() => work?.excerpts.find(e => e.id.toString() === excerptId), [work, excerptId]);
     
     const answerAttempts = (workId && excerptId) ? answers[workId]?.[excerptId] : [];
     const answerData = answerAttempts && answerAttempts.length > 0 ? answerAttempts[answerAttempts.length - 1] : undefined;
 
-    const { correct, total } = useMemo(() => {
-        if (!excerpt || !answerData) return { correct: 0, total: 0 };
+    const { points, total, firstTryCorrect, firstTryTotal } = useMemo(() => {
+        if (!excerpt || !answerData) return { points: 0, total: 0, firstTryCorrect: null, firstTryTotal: 0 };
         return getScore(excerpt, answerData);
     }, [excerpt, answerData]);
     
+    if (isLoading) {
+        return <LoadingScreen />;
+    }
+
     if (!work || !excerpt || !answerData) {
         return (
           <div className="text-center p-8">
@@ -616,16 +1132,29 @@ const SubmissionPage = () => {
                          <div className="bg-green-50 p-4 rounded-lg">
                             <p className="text-sm text-green-800 font-semibold">正解数</p>
                             <p className="text-2xl font-bold text-green-700">
-                                {correct} / {total} 問
+                                {formatPoints(points)} / {total} 問
                             </p>
                             <p className="text-xs text-slate-500">
-                                正答率 {total > 0 ? Math.round((correct/total)*100) : 0}%
+                                正答率 {total > 0 ? Math.round((points/total)*100) : 0}%
                             </p>
                         </div>
+                        {firstTryCorrect !== null && (
+                            <div className="bg-amber-50 p-4 rounded-lg col-span-2">
+                                <p className="text-sm text-amber-800 font-semibold">1回目で正解</p>
+                                <p className="text-2xl font-bold text-amber-700">
+                                    {firstTryCorrect} / {firstTryTotal} 問
+                                </p>
+                                <p className="text-xs text-slate-500">
+                                    初回正答率 {firstTryTotal > 0 ? Math.round((firstTryCorrect/firstTryTotal)*100) : 0}%
+                                </p>
+                            </div>
+                        )}
                     </div>
                     
-                    <div className="mt-8 text-center text-xs text-slate-500">
-                        <p>この画面をスクリーンショットして報告しましょう！</p>
+                    <SubmissionCodeCard submission={{ workId: work.id, excerptId: excerpt.id.toString(), points: Math.round(points * 10) / 10, total, studyTime, timestamp: answerData.timestamp }} />
+
+                    <div className="mt-6 text-center text-xs text-slate-500">
+                        <p>提出コードを先生に送るか、QRコードを見せて報告しましょう！</p>
                     </div>
                 </div>
                 
@@ -639,6 +1168,220 @@ const SubmissionPage = () => {
     );
 };
 
+const recordsFileProblemMessages: Record<RecordsFileProblem, string> = {
+    'not-json': 'ファイルを読み込めませんでした。書き出した記録ファイルを選んでください。',
+    'wrong-format': 'このファイルは学習記録のファイルではありません。',
+    'checksum-mismatch': 'ファイルの内容が書き出したときから変わっているため、読み込めません。',
+    'newer-version': 'このファイルは新しいバージョンのアプリで書き出されたため、読み込めません。アプリを更新してください。',
+    'invalid-data': 'ファイルの中の記録を読み取れませんでした。',
+};
+
+// When the file itself cannot be read, before there is anything to check
+const recordsFileReadErrorMessage = '記録ファイルを読み込めませんでした。';
+
+const downloadFile = (content: string, fileName: string, type: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+// Characters that Windows and macOS do not allow in file names are replaced.
+const toFileNamePart = (text: string): string => text.replace(/[\\/:*?"<>|\s]+/g, '_');
+
+// YYYYMMDD in local time, for file names
+const formatDateStamp = (date: Date): string =>
+    `${date.getFullYear()}${String(date.getMonth() + 1).padStart(2, '0')}${String(date.getDate()).padStart(2, '0')}`;
+
+const describeMergeGroup = (workId: string, excerptId: string): string => {
+    const title = workIndex.find(w => w.id === workId)?.title ?? workId;
+    return excerptId === VOCABULARY_MODE_KEY ? `${title}：語句ドリル` : `${title}：抜粋 ${excerptId}`;
+};
+
+// Records that could not be read when the app loaded (see answerStorage.ts), offered as a file
+// so they can be recovered by hand.
+const QuarantinePanel = () => {
+    const [records] = useState(readQuarantine);
+    if (records.length === 0) return null;
+
+    return (
+        <div className="mb-6 bg-amber-50 border border-amber-200 p-4 rounded-lg text-sm">
+            <p className="text-amber-800 flex items-center">
+                <AlertTriangleIcon className="h-5 w-5 mr-2 flex-shrink-0" />
+                読み込めなかった記録が{records.length}件あります。消さずに取ってあるので、ファイルに保存して先生に相談してください。
+            </p>
+            <button
+                onClick={() => downloadFile(JSON.stringify(records, null, 2), `dokkai-unreadable-records-${formatDateStamp(new Date())}.json`, 'application/json')}
+                className="mt-3 bg-white text-slate-700 font-bold py-2 px-4 rounded-lg shadow-sm hover:bg-slate-50 transition-colors"
+            >
+                読み込めなかった記録を保存する
+            </button>
+        </div>
+    );
+};
+
+// Export of all records to a file, and import of such a file with a preview of what it adds.
+const RecordTransferPanel = () => {
+    const { answers, importAnswers } = useAnswers();
+    const [studentName, setStudentName] = useDevicePreference<string>('studentName', null, '');
+    const [pending, setPending] = useState<{ fileName: string; incoming: UserAnswers; preview: MergePreview; invalidCount: number } | null>(null);
+    const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const hasRecords = Object.values(answers).some(excerpts => Object.values(excerpts).some(attempts => attempts.length > 0));
+
+    const handleExport = async () => {
+        const name = studentName.trim();
+        if (!name) return;
+        try {
+            const file = await createRecordsFile(answers, name);
+            downloadFile(JSON.stringify(file, null, 2), `dokkai-records-${toFileNamePart(name)}-${formatDateStamp(new Date())}.json`, 'application/json');
+        } catch (error) {
+            console.error("Failed to export records", error);
+            setMessage({ text: '記録を書き出せませんでした。', isError: true });
+        }
+    };
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ''; // Allow choosing the same file again
+        if (!file) return;
+        setPending(null);
+        setMessage(null);
+        let parsed: ParsedRecordsFile;
+        try {
+            parsed = await parseRecordsFile(await file.text());
+        } catch (error) {
+            console.error("Failed to read records file", error);
+            setMessage({ text: recordsFileReadErrorMessage, isError: true });
+            return;
+        }
+        if (parsed.ok === false) {
+            setMessage({ text: recordsFileProblemMessages[parsed.problem], isError: true });
+            return;
+        }
+        setPending({ fileName: file.name, incoming: parsed.answers, preview: previewMerge(answers, parsed.answers), invalidCount: parsed.invalidCount });
+    };
+
+    const handleConfirmImport = () => {
+        if (!pending) return;
+        importAnswers(pending.incoming);
+        setMessage({ text: `${pending.preview.addedCount}件の記録を追加しました。`, isError: false });
+        setPending(null);
+    };
+
+    return (
+        <div className="mb-6">
+            <div className="flex flex-wrap items-end gap-3">
+                <label className="flex flex-col text-sm text-slate-600">
+                    名前（書き出すファイルに入ります）
+                    <input value={studentName} onChange={(e) => setStudentName(e.target.value)} className="mt-1 p-2 border border-slate-300 rounded-lg" placeholder="出席番号と名前" />
+                </label>
+                <button
+                    onClick={handleExport}
+                    disabled={!hasRecords || !studentName.trim()}
+                    className="bg-white text-slate-700 font-bold py-2 px-4 rounded-lg shadow-sm hover:bg-slate-50 transition-colors text-sm disabled:text-slate-400 disabled:cursor-not-allowed"
+                >
+                    記録をファイルに書き出す
+                </button>
+                <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="bg-white text-slate-700 font-bold py-2 px-4 rounded-lg shadow-sm hover:bg-slate-50 transition-colors text-sm"
+                >
+                    ファイルから読み込む
+                </button>
+                <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleFileChange} className="hidden" />
+            </div>
+
+            {message && (
+                <p className={`mt-3 text-sm ${message.isError ? 'text-red-600' : 'text-green-700'}`} role="status">{message.text}</p>
+            )}
+
+            {pending && (
+                <div className="mt-4 bg-white p-4 rounded-lg shadow-sm border border-sky-200">
+                    <h2 className="font-bold text-slate-800">{pending.fileName} の読み込み</h2>
+                    {pending.preview.addedCount === 0 ? (
+                        <p className="mt-2 text-slate-600">追加される記録はありません（すべて記録済みです）。</p>
+                    ) : (
+                        <>
+                            <p className="mt-2 text-slate-600">次の{pending.preview.addedCount}件の記録が追加されます。</p>
+                            <ul className="mt-2 text-sm text-slate-700 list-disc list-inside max-h-48 overflow-y-auto">
+                                {pending.preview.added.map(({ workId, excerptId, attempts }) => (
+                                    <li key={`${workId}-${excerptId}`}>{describeMergeGroup(workId, excerptId)}（{attempts.length}件）</li>
+                                ))}
+                            </ul>
+                        </>
+                    )}
+                    {pending.preview.duplicateCount > 0 && (
+                        <p className="mt-2 text-sm text-slate-500">すでにある{pending.preview.duplicateCount}件は重複するため追加しません。</p>
+                    )}
+                    {pending.invalidCount > 0 && (
+                        <p className="mt-2 text-sm text-amber-700">読み取れなかった{pending.invalidCount}件の記録は追加しません。</p>
+                    )}
+                    <div className="mt-4 flex gap-3">
+                        <button
+                            onClick={handleConfirmImport}
+                            disabled={pending.preview.addedCount === 0}
+                            className="bg-sky-500 text-white font-bold py-2 px-4 rounded-lg hover:bg-sky-600 transition-colors text-sm disabled:bg-slate-400 disabled:cursor-not-allowed"
+                        >
+                            追加する
+                        </button>
+                        <button onClick={() => setPending(null)} className="text-sm text-slate-600 hover:underline">
+                            キャンセル
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+// "YYYY-MM-DD" from a date input, as local midnight
+const parseDateInput = (value: string): Date | undefined => {
+    const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    return match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : undefined;
+};
+
+// CSV of the attempts in a date range, for teachers' spreadsheets.
+const AttemptsCsvPanel = ({ works }: { works: Work[] }) => {
+    const { answers } = useAnswers();
+    const [from, setFrom] = useState('');
+    const [to, setTo] = useState('');
+
+    const range: DateRange = { from: parseDateInput(from), to: parseDateInput(to) };
+    const attemptCount = collectCsvAttempts(answers, works, range).length;
+
+    const handleExport = () => {
+        const csv = buildAttemptsCsv(answers, works, range);
+        const period = from || to ? `-${from.replace(/-/g, '') || 'start'}-${to.replace(/-/g, '') || 'end'}` : '';
+        downloadFile(csv, `dokkai-attempts${period}.csv`, 'text/csv;charset=utf-8');
+    };
+
+    return (
+        <div className="mb-6 bg-white p-4 rounded-lg shadow-sm">
+            <h2 className="font-bold text-slate-700">CSVで書き出す（先生への提出用）</h2>
+            <div className="mt-3 flex flex-wrap items-end gap-3 text-sm">
+                <label className="flex flex-col text-slate-600">
+                    開始日
+                    <input type="date" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} className="mt-1 p-2 border border-slate-300 rounded-lg" />
+                </label>
+                <label className="flex flex-col text-slate-600">
+                    終了日
+                    <input type="date" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} className="mt-1 p-2 border border-slate-300 rounded-lg" />
+                </label>
+                <button
+                    onClick={handleExport}
+                    disabled={attemptCount === 0}
+                    className="bg-sky-500 text-white font-bold py-2 px-4 rounded-lg hover:bg-sky-600 transition-colors disabled:bg-slate-400 disabled:cursor-not-allowed"
+                >
+                    CSVを書き出す（{attemptCount}件）
+                </button>
+            </div>
+        </div>
+    );
+};
+
 const RecordsPage = () => {
     const { answers, clearAllAnswers } = useAnswers();
     const [openSections, setOpenSections] = useState<Record<string, boolean>>({ today: true });
@@ -678,6 +1421,9 @@ const RecordsPage = () => {
     };
 
 
+    const attemptedWorkIds = useMemo(() => Object.keys(answers).filter(id => workIndex.some(w => w.id === id)), [answers]);
+    const { works, isLoading } = useWorks(attemptedWorkIds);
+
     const categorizedAttempts = useMemo(() => {
         const allAttempts = Object.entries(answers).flatMap(([workId, excerpts]) =>
             Object.entries(excerpts).flatMap(([excerptId, attempts]) => {
@@ -736,7 +1482,7 @@ const RecordsPage = () => {
         });
 
         return Object.entries(categories).filter(([_, data]) => data.attempts.length > 0);
-    }, [answers]);
+    }, [answers, works]);
 
     return (
         <div className="max-w-3xl mx-auto px-4 py-8">
@@ -770,7 +1516,13 @@ const RecordsPage = () => {
                 )}
             </header>
 
-            {categorizedAttempts.length === 0 ? (
+            <RecordTransferPanel />
+            <QuarantinePanel />
+            {!isLoading && categorizedAttempts.length > 0 && <AttemptsCsvPanel works={works} />}
+
+            {isLoading ? (
+                <LoadingScreen />
+            ) : categorizedAttempts.length === 0 ? (
                 <div className="text-center bg-white p-8 rounded-lg shadow-sm">
                     <p className="text-slate-600">まだ学習記録がありません。</p>
                 </div>
@@ -818,7 +1570,7 @@ const RecordsPage = () => {
                                                              {key === 'today' && score && score.total > 0 && (
                                                                 <p className="font-semibold text-green-600 flex items-center justify-end text-sm mt-1">
                                                                     <CheckCircleIcon className="h-4 w-4 mr-1" />
-                                                                    {score.correct} / {score.total} 問 ({Math.round((score.correct / score.total) * 100)}%)
+                                                                    {formatPoints(score.points)} / {score.total} 問 ({Math.round((score.points / score.total) * 100)}%)
                                                                 </p>
                                                             )}
                                                             <p className="text-xs text-slate-400 mt-1">{dateString} {timeString}</p>
@@ -839,32 +1591,552 @@ const RecordsPage = () => {
 };
 
 
-// --- Main App Component ---
+// A new drill (with freshly drawn distractors) is generated for every attempt.
+const VocabularyDrillPage = () => {
+    const { workId } = useParams<{ workId: string }>();
+    const { answers, saveAnswers } = useAnswers();
+    const { work, isLoading } = useWork(workId);
 
-const App = () => {
-    const [answers, setAnswers] = useState<UserAnswers>(() => {
-        try {
-            const saved = localStorage.getItem('userAnswers');
-            return saved ? JSON.parse(saved) : {};
-        } catch (error) {
-            console.error("Failed to parse answers from localStorage", error);
-            return {};
+    const [drill, setDrill] = useState<VocabularyDrill | null>(null);
+    const [userAnswers, setUserAnswers] = useState<{ [key: string]: UserAnswer }>({});
+    const [score, setScore] = useState<ScoreSummary | null>(null);
+    const [startTime, setStartTime] = useState(0);
+
+    const startDrill = () => {
+        if (!work) return;
+        setDrill(buildVocabularyDrill(work));
+        setUserAnswers({});
+        setScore(null);
+        setStartTime(Date.now());
+    };
+
+    useEffect(startDrill, [work]);
+
+    const handleGrade = () => {
+        if (!work || !drill) return;
+        const timestamp = Date.now();
+        const rounds: { [key: string]: GradingRound[] } = {};
+        drill.questions.forEach((q, index) => {
+            const answer = userAnswers[index] ?? '';
+            rounds[index] = [{ answer, verdict: gradeQuestion(q, answer).verdict, timestamp }];
+        });
+        const studyTimeInSeconds = Math.max(Math.round((timestamp - startTime) / 1000), 1);
+        saveAnswers(work.id, VOCABULARY_MODE_KEY, userAnswers, studyTimeInSeconds, rounds);
+        setScore(getScore(drill, { answers: userAnswers, studyTime: studyTimeInSeconds, timestamp, rounds }));
+        window.scrollTo(0, 0);
+    };
+
+    if (isLoading || (work && !drill)) {
+        return <LoadingScreen />;
+    }
+
+    if (!work || !drill || drill.questions.length === 0) {
+        return <div className="text-center p-8">語句ドリルが見つかりません。</div>;
+    }
+
+    const attempts = answers[work.id]?.[VOCABULARY_MODE_KEY] ?? [];
+    const answeredCount = drill.questions.filter((_, index) => userAnswers[index] !== undefined).length;
+
+    return (
+        <div className="max-w-4xl mx-auto px-4 py-8">
+            <header className="mb-6 border-b pb-4">
+                <Link to={`/work/${work.id}`} className="text-sky-600 hover:underline mb-2 inline-block">&larr; 抜粋選択に戻る</Link>
+                <h1 className="text-2xl font-bold text-slate-800">{work.title}</h1>
+                <p className="text-lg text-slate-600 mt-1">語句ドリル（{drill.questions.length}問）</p>
+                {attempts.length > 0 && <p className="text-sm text-slate-500 mt-1">{attempts.length}回 挑戦済</p>}
+            </header>
+
+            {score && (
+                <div className="bg-white p-6 rounded-lg shadow-md mb-8 text-center">
+                    <p className="text-slate-600">結果</p>
+                    <p className="text-4xl font-bold text-sky-600 my-2">{formatPoints(score.points)} / {score.total}</p>
+                    <button onClick={startDrill} className="mt-2 bg-sky-500 text-white font-bold py-2 px-6 rounded-lg hover:bg-sky-600 transition-colors">
+                        もう一度挑戦する
+                    </button>
+                </div>
+            )}
+
+            <div className="space-y-6">
+                {drill.questions.map((q, index) => {
+                    const result = score?.results[index];
+                    return (
+                        <div key={index} className={`bg-white p-6 rounded-lg shadow-md border-l-4 transition-colors ${result ? verdictBorderColors[result.verdict] : 'border-transparent'}`}>
+                            <p className="font-semibold text-slate-800">問{index + 1}. {q.q}</p>
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mt-4">
+                                {q.options?.map(option => {
+                                    const isSelected = userAnswers[index] === option;
+                                    return (
+                                        <button
+                                            key={option}
+                                            onClick={() => setUserAnswers(prev => ({ ...prev, [index]: option }))}
+                                            disabled={score !== null}
+                                            className={`p-3 rounded-lg text-left transition-all duration-200 border-2 disabled:opacity-70 disabled:cursor-not-allowed ${isSelected ? 'bg-sky-500 border-sky-600 text-white font-bold shadow-md' : 'bg-slate-100 hover:bg-sky-100 hover:border-sky-300 border-slate-200'}`}
+                                        >
+                                            {option}
+                                        </button>
+                                    );
+                                })}
+                            </div>
+                            {result && !result.isCorrect && (
+                                <p className="mt-4 text-sm text-slate-700">
+                                    <span className="font-bold text-green-700">正解：</span>{result.correctAnswer}
+                                </p>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+
+            {!score && (
+                <div className="mt-8 text-center">
+                    <button
+                        onClick={handleGrade}
+                        disabled={answeredCount === 0}
+                        className="bg-sky-500 text-white font-bold py-3 px-8 rounded-lg hover:bg-sky-600 transition-colors disabled:bg-slate-400 disabled:cursor-not-allowed"
+                    >
+                        採点する（{answeredCount} / {drill.questions.length}問 解答済）
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+const submissionCodeProblemLabels: Record<SubmissionCodeProblem, string> = {
+    'malformed': 'コードの形式が正しくありません',
+    'unsupported-version': 'このバージョンのアプリでは読めません',
+    'bad-signature': 'クラスキーが違うか、書き換えられています',
+};
+
+// Teacher side of the submission codes: checks pasted codes against the class key and lists them.
+const SubmissionCodesPage = () => {
+    const [classKey, setClassKey] = useDevicePreference<string>('classKey', null, '');
+    const [input, setInput] = useState('');
+    const [checked, setChecked] = useState<{ code: string; result: VerifiedSubmissionCode }[]>([]);
+
+    useEffect(() => {
+        const codes = [...new Set(extractSubmissionCodes(input))];
+        if (!classKey || codes.length === 0) {
+            setChecked([]);
+            return;
         }
-    });
+        let cancelled = false;
+        Promise.all(codes.map(async code => ({ code, result: await verifySubmissionCode(code, classKey) })))
+            .then(results => { if (!cancelled) setChecked(results); })
+            .catch(error => console.error("Failed to verify submission codes", error));
+        return () => { cancelled = true; };
+    }, [input, classKey]);
+
+    const submissions = checked.flatMap(({ result }) => result.ok === true ? [result.submission] : [])
+        .sort((a, b) => a.studentName.localeCompare(b.studentName, 'ja') || a.timestamp - b.timestamp);
+    const rejected = checked.flatMap(({ code, result }) => result.ok === false ? [{ code, problem: result.problem }] : []);
+    const { works } = useWorks([...new Set<string>(submissions.map(s => s.workId))]);
+
+    const describeExcerpt = (submission: Submission): string => {
+        const excerpt = works.find(w => w.id === submission.workId)?.excerpts.find(e => e.id.toString() === submission.excerptId);
+        return excerpt ? excerpt.subtitle : `抜粋 ${submission.excerptId}`;
+    };
+
+    return (
+        <div className="max-w-5xl mx-auto px-4 py-8">
+            <header className="mb-6">
+                <Link to="/" className="text-sky-600 hover:underline mb-2 inline-block">&larr; トップに戻る</Link>
+                <h1 className="text-3xl font-bold text-slate-800">提出コードの確認</h1>
+                <p className="text-slate-600 mt-2">生徒から届いた提出コードを貼り付けると、クラスキーで検証して一覧にします。</p>
+            </header>
+
+            <div className="bg-white p-4 rounded-lg shadow-sm space-y-3">
+                <label className="flex flex-col text-sm text-slate-600">
+                    クラスキー
+                    <input value={classKey} onChange={(e) => setClassKey(e.target.value)} className="mt-1 p-2 border border-slate-300 rounded-lg max-w-xs" autoComplete="off" />
+                </label>
+                <label className="flex flex-col text-sm text-slate-600">
+                    提出コード（いくつでも、改行区切りで）
+                    <textarea value={input} onChange={(e) => setInput(e.target.value)} rows={6} className="mt-1 p-2 border border-slate-300 rounded-lg font-mono text-xs" placeholder="DK1.…" />
+                </label>
+            </div>
+
+            {submissions.length > 0 && (
+                <div className="mt-6 bg-white rounded-lg shadow-sm overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead className="bg-slate-50 text-slate-600 text-left">
+                            <tr>
+                                <th className="p-3">名前</th>
+                                <th className="p-3">作品</th>
+                                <th className="p-3">抜粋</th>
+                                <th className="p-3 text-right">得点</th>
+                                <th className="p-3 text-right">勉強時間</th>
+                                <th className="p-3">日時</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {submissions.map(submission => (
+                                <tr key={`${submission.studentName}-${submission.workId}-${submission.excerptId}-${submission.timestamp}`} className="border-t">
+                                    <td className="p-3 font-semibold text-slate-800">{submission.studentName}</td>
+                                    <td className="p-3">{workIndex.find(w => w.id === submission.workId)?.title ?? submission.workId}</td>
+                                    <td className="p-3">{describeExcerpt(submission)}</td>
+                                    <td className="p-3 text-right">{formatPoints(submission.points)} / {submission.total}</td>
+                                    <td className="p-3 text-right">{formatTime(submission.studyTime)}</td>
+                                    <td className="p-3 text-slate-500">{new Date(submission.timestamp).toLocaleString('ja-JP')}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {rejected.length > 0 && (
+                <div className="mt-6 bg-red-50 border border-red-200 p-4 rounded-lg">
+                    <h2 className="font-bold text-red-700 flex items-center">
+                        <AlertTriangleIcon className="h-5 w-5 mr-2" />
+                        確認できなかったコード（{rejected.length}件）
+                    </h2>
+                    <ul className="mt-2 space-y-1 text-sm">
+                        {rejected.map(({ code, problem }) => (
+                            <li key={code}>
+                                <span className="font-mono text-xs break-all text-slate-600">{code}</span>
+                                <span className="ml-2 text-red-700">{submissionCodeProblemLabels[problem]}</span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+};
+
+// Teacher view over many students: record files and submission codes are read and scored in the
+// browser, and shown as a matrix of students × excerpts.
+const TeacherDashboardPage = () => {
+    const [classKey, setClassKey] = useDevicePreference<string>('classKey', null, '');
+    const [files, setFiles] = useState<{ checksum: string; fileName: string; student: string | null; answers: UserAnswers }[]>([]);
+    const [fileErrors, setFileErrors] = useState<{ fileName: string; message: string }[]>([]);
+    const [codeInput, setCodeInput] = useState('');
+    const [submissions, setSubmissions] = useState<Submission[]>([]);
+    const [rejectedCount, setRejectedCount] = useState(0);
+    const fileInputRef = useRef<HTMLInputElement>(null);
 
     useEffect(() => {
-        try {
-            localStorage.setItem('userAnswers', JSON.stringify(answers));
-        } catch (error) {
-            console.error("Failed to save answers to localStorage", error);
+        const codes = [...new Set(extractSubmissionCodes(codeInput))];
+        if (!classKey || codes.length === 0) {
+            setSubmissions([]);
+            setRejectedCount(0);
+            return;
+        }
+        let cancelled = false;
+        Promise.all(codes.map(code => verifySubmissionCode(code, classKey)))
+            .then(results => {
+                if (cancelled) return;
+                setSubmissions(results.flatMap(result => result.ok === true ? [result.submission] : []));
+                setRejectedCount(results.filter(result => result.ok === false).length);
+            })
+            .catch(error => console.error("Failed to verify submission codes", error));
+        return () => { cancelled = true; };
+    }, [codeInput, classKey]);
+
+    const handleFilesChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const chosen: File[] = Array.from(e.target.files ?? []);
+        e.target.value = ''; // Allow choosing the same files again
+        const loaded: typeof files = [];
+        const errors: typeof fileErrors = [];
+        for (const file of chosen) {
+            // One file that cannot be read does not stop the others from loading
+            let parsed: ParsedRecordsFile;
+            try {
+                parsed = await parseRecordsFile(await file.text());
+            } catch (error) {
+                console.error(`Failed to read records file ${file.name}`, error);
+                errors.push({ fileName: file.name, message: recordsFileReadErrorMessage });
+                continue;
+            }
+            if (parsed.ok === true) {
+                const { checksum, studentName } = parsed.file;
+                loaded.push({ checksum, fileName: file.name, student: studentName?.trim() || null, answers: parsed.answers });
+            } else {
+                errors.push({ fileName: file.name, message: recordsFileProblemMessages[parsed.problem] });
+            }
         }
-    }, [answers]);
+        // Files are told apart by their data, since every export has the same default name. Reading a
+        // file again replaces what was read from it before.
+        setFiles(prev => [...prev.filter(f => !loaded.some(l => l.checksum === f.checksum)), ...loaded]);
+        setFileErrors(errors);
+    };
 
-    const saveAnswers = (workId: string, excerptId: number, userAnswers: { [key: string]: UserAnswer }, studyTime: number) => {
+    // Files and codes of the same student are combined into one row. A file without a name gets a
+    // row of its own, as there is no telling whose it is.
+    const sources = useMemo(() => {
+        const byId = new Map<string, StudentSource>();
+        const sourceOf = (id: string, student: string | null) => {
+            if (!byId.has(id)) byId.set(id, { id, student, answers: {}, submissions: [] });
+            return byId.get(id)!;
+        };
+        files.forEach(({ checksum, student, answers }) => {
+            const source = student === null ? sourceOf(`file:${checksum}`, null) : sourceOf(`student:${student}`, student);
+            source.answers = mergeAnswers(source.answers ?? {}, answers);
+        });
+        submissions.forEach(submission => sourceOf(`student:${submission.studentName}`, submission.studentName).submissions!.push(submission));
+        return [...byId.values()];
+    }, [files, submissions]);
+
+    const workIds = useMemo(() => [...new Set<string>(sources.flatMap(source => [
+        ...Object.keys(source.answers ?? {}),
+        ...(source.submissions ?? []).map(s => s.workId),
+    ]))], [sources]);
+    const { works, isLoading } = useWorks(workIds);
+    const dashboard = useMemo(() => buildDashboard(sources, works), [sources, works]);
+
+    const formatRate = (correct: number, total: number) => total > 0 ? `${Math.round(correct / total * 100)}%` : '—';
+
+    return (
+        <div className="max-w-6xl mx-auto px-4 py-8">
+            <header className="mb-6">
+                <Link to="/" className="text-sky-600 hover:underline mb-2 inline-block">&larr; トップに戻る</Link>
+                <h1 className="text-3xl font-bold text-slate-800">先生用ダッシュボード</h1>
+                <p className="text-slate-600 mt-2">生徒が書き出した記録ファイルや提出コードを読み込むと、生徒ごと・抜粋ごとの成績をまとめます。データはこのブラウザの中だけで集計され、どこにも送信されません。</p>
+                <Link to="/teacher/codes" className="text-sm text-sky-600 hover:underline mt-2 inline-block">提出コードを1件ずつ確認する &rarr;</Link>
+            </header>
+
+            <div className="grid md:grid-cols-2 gap-4">
+                <div className="bg-white p-4 rounded-lg shadow-sm space-y-3">
+                    <h2 className="font-bold text-slate-800">記録ファイル</h2>
+                    <div className="flex flex-wrap gap-3">
+                        <button
+                            onClick={() => fileInputRef.current?.click()}
+                            className="bg-sky-500 text-white font-bold py-2 px-4 rounded-lg hover:bg-sky-600 transition-colors text-sm"
+                        >
+                            ファイルを選ぶ（複数可）
+                        </button>
+                        <button
+                            onClick={() => { setFiles([]); setFileErrors([]); }}
+                            disabled={files.length === 0}
+                            className="bg-white text-slate-700 font-bold py-2 px-4 rounded-lg border border-slate-300 hover:bg-slate-50 transition-colors text-sm disabled:text-slate-400 disabled:cursor-not-allowed"
+                        >
+                            すべて外す
+                        </button>
+                        <input ref={fileInputRef} type="file" accept=".json,application/json" multiple onChange={handleFilesChange} className="hidden" />
+                    </div>
+                    {files.length > 0 && (
+                        <ul className="text-sm text-slate-600 max-h-32 overflow-y-auto">
+                            {files.map(({ checksum, fileName, student }) => <li key={checksum}>{student ?? '名前不明'}<span className="text-slate-400 ml-2">{fileName}</span></li>)}
+                        </ul>
+                    )}
+                    {fileErrors.length > 0 && (
+                        <ul className="text-sm text-red-600" role="status">
+                            {fileErrors.map(({ fileName, message }, i) => <li key={`${fileName}-${i}`}>{fileName}：{message}</li>)}
+                        </ul>
+                    )}
+                </div>
+
+                <div className="bg-white p-4 rounded-lg shadow-sm space-y-3">
+                    <h2 className="font-bold text-slate-800">提出コード</h2>
+                    <label className="flex flex-col text-sm text-slate-600">
+                        クラスキー
+                        <input value={classKey} onChange={(e) => setClassKey(e.target.value)} className="mt-1 p-2 border border-slate-300 rounded-lg max-w-xs" autoComplete="off" />
+                    </label>
+                    <label className="flex flex-col text-sm text-slate-600">
+                        提出コード（いくつでも、改行区切りで）
+                        <textarea value={codeInput} onChange={(e) => setCodeInput(e.target.value)} rows={4} className="mt-1 p-2 border border-slate-300 rounded-lg font-mono text-xs" placeholder="DK1.…" />
+                    </label>
+                    {rejectedCount > 0 && (
+                        <p className="text-sm text-red-600" role="status">確認できなかったコードが{rejectedCount}件あります。</p>
+                    )}
+                </div>
+            </div>
+
+            {isLoading ? (
+                <LoadingScreen />
+            ) : dashboard.rows.length === 0 ? (
+                <div className="mt-6 text-center bg-white p-8 rounded-lg shadow-sm">
+                    <p className="text-slate-600">記録ファイルか提出コードを読み込んでください。</p>
+                </div>
+            ) : (
+                <>
+                    <div className="mt-6 bg-white rounded-lg shadow-sm overflow-x-auto">
+                        <table className="text-sm min-w-full">
+                            <thead className="bg-slate-50 text-slate-600 text-left align-bottom">
+                                <tr>
+                                    <th className="p-3 sticky left-0 bg-slate-50">名前</th>
+                                    <th className="p-3 text-right whitespace-nowrap">勉強時間</th>
+                                    <th className="p-3 text-right whitespace-nowrap">初回正答率</th>
+                                    {dashboard.columns.map(column => (
+                                        <th key={column.key} className="p-3 min-w-[8rem]">
+                                            <span className="block text-xs font-normal text-slate-500">{column.workTitle}</span>
+                                            {column.subtitle}
+                                        </th>
+                                    ))}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {dashboard.rows.map(row => (
+                                    <tr key={row.id} className="border-t">
+                                        <td className="p-3 font-semibold text-slate-800 sticky left-0 bg-white whitespace-nowrap">
+                                            {row.student ?? (
+                                                <>
+                                                    <span className="text-amber-700">名前不明</span>
+                                                    <span className="block text-xs font-normal text-slate-500">{files.find(f => `file:${f.checksum}` === row.id)?.fileName}</span>
+                                                </>
+                                            )}
+                                        </td>
+                                        <td className="p-3 text-right whitespace-nowrap">{formatTime(row.studyTime)}</td>
+                                        <td className="p-3 text-right">{formatRate(row.firstTryCorrect, row.firstTryTotal)}</td>
+                                        {dashboard.columns.map(column => {
+                                            const cell = row.cells[column.key];
+                                            return (
+                                                <td key={column.key} className="p-3 align-top">
+                                                    {cell ? (
+                                                        <>
+                                                            <span className="font-bold text-slate-800">{formatPoints(cell.bestPoints)} / {cell.total}</span>
+                                                            <span className="block text-xs text-slate-500">{cell.attempts}回・{formatTime(cell.studyTime)}</span>
+                                                            {cell.firstTryCorrect !== null && (
+                                                                <span className="block text-xs text-slate-500">初回 {cell.firstTryCorrect} / {cell.firstTryTotal}</span>
+                                                            )}
+                                                        </>
+                                                    ) : (
+                                                        <span className="text-slate-300">—</span>
+                                                    )}
+                                                </td>
+                                            );
+                                        })}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                    <p className="mt-2 text-xs text-slate-500">得点は最高点です。初回正答は、はじめて解いたときの1回目の採点で正解した問題の数です（提出コードだけの記録にはありません）。</p>
+                    {dashboard.skippedCount > 0 && (
+                        <p className="mt-1 text-xs text-amber-700">このアプリにない作品・抜粋の記録{dashboard.skippedCount}件は集計していません。</p>
+                    )}
+
+                    {dashboard.mostMissed.length > 0 && (
+                        <div className="mt-8">
+                            <h2 className="text-xl font-bold text-slate-800 mb-3">つまずきの多い問題</h2>
+                            <ol className="space-y-2">
+                                {dashboard.mostMissed.map(({ column, questionIndex, question, missed, attempted }) => (
+                                    <li key={`${column.key}-${questionIndex}`} className="bg-white p-4 rounded-lg shadow-sm flex items-start gap-4">
+                                        <span className="text-lg font-bold text-red-600 whitespace-nowrap">{formatRate(missed, attempted)}</span>
+                                        <div>
+                                            <p className="text-xs text-slate-500">{column.workTitle}：{column.subtitle} 問{questionIndex + 1}（{attempted}人中{missed}人）</p>
+                                            <p className="text-slate-800 line-clamp-2">{question.q}</p>
+                                        </div>
+                                    </li>
+                                ))}
+                            </ol>
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
+
+// Every note of every work, so this page loads all works.
+const allWorkIds = workIndex.map(w => w.id);
+
+const GlossaryPage = () => {
+    const { works, isLoading } = useWorks(allWorkIds);
+    const [query, setQuery] = useState('');
+    const glossary = useMemo(() => buildGlossary(works), [works]);
+    const entries = useMemo(() => searchGlossary(glossary, query), [glossary, query]);
+
+    return (
+        <div className="max-w-3xl mx-auto px-4 py-8">
+            <header className="mb-8">
+                <Link to="/" className="text-sky-600 hover:underline mb-2 inline-block">&larr; トップに戻る</Link>
+                <h1 className="text-3xl font-bold text-slate-800 flex items-center">
+                    <BookOpenIcon className="h-8 w-8 mr-3 text-sky-500" />
+                    語句集
+                </h1>
+                <p className="text-slate-600 mt-2">すべての作品の注釈に出てくる言葉をまとめています。</p>
+            </header>
+
+            <div className="relative mb-6">
+                <SearchIcon className="h-5 w-5 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+                <input
+                    type="search"
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    placeholder="言葉・読み・意味で検索"
+                    aria-label="語句を検索"
+                    className="w-full pl-10 pr-4 py-3 rounded-lg border border-slate-300 focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+                />
+            </div>
+
+            {isLoading ? (
+                <LoadingScreen />
+            ) : entries.length === 0 ? (
+                <div className="text-center bg-white p-8 rounded-lg shadow-sm">
+                    <p className="text-slate-600">{query ? '見つかりませんでした。' : 'まだ語句がありません。'}</p>
+                </div>
+            ) : (
+                <>
+                    <p className="text-sm text-slate-500 mb-3" aria-live="polite">{entries.length}語</p>
+                    <ul className="space-y-3">
+                        {entries.map(entry => (
+                            <li key={entry.headword} className="bg-white p-4 rounded-lg shadow-sm">
+                                <p className="text-lg font-bold text-slate-800">
+                                    {entry.headword}
+                                    {entry.reading && <span className="ml-2 text-sm font-normal text-slate-500">（{entry.reading}）</span>}
+                                </p>
+                                <ul className="mt-1 text-slate-700 space-y-1">
+                                    {entry.definitions.map(definition => <li key={definition}>{definition}</li>)}
+                                </ul>
+                                <div className="mt-3 flex flex-wrap gap-2">
+                                    {entry.occurrences.map(o => (
+                                        <Link
+                                            key={`${o.workId}-${o.excerptId}`}
+                                            to={`/work/${o.workId}/excerpt/${o.excerptId}`}
+                                            className="text-xs bg-sky-50 text-sky-700 px-2 py-1 rounded-full hover:bg-sky-100"
+                                        >
+                                            {o.workTitle}：{o.excerptSubtitle}
+                                        </Link>
+                                    ))}
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                </>
+            )}
+        </div>
+    );
+};
+
+// --- Main App Component ---
+
+const AppRoutes = () => {
+    const location = useLocation();
+    return (
+        <ErrorBoundary resetKey={location.pathname} fallback={(_, reset) => <PageErrorScreen onRetry={reset} />}>
+            <Routes>
+                <Route path="/" element={<HomePage />} />
+                <Route path="/work/:workId" element={<ExcerptListPage />} />
+                <Route path="/work/:workId/excerpt/:excerptId" element={<QuizPage />} />
+                <Route path="/work/:workId/excerpt/:excerptId/result" element={<ResultPage />} />
+                <Route path="/work/:workId/excerpt/:excerptId/submission" element={<SubmissionPage />} />
+                <Route path="/work/:workId/vocabulary" element={<VocabularyDrillPage />} />
+                <Route path="/records" element={<RecordsPage />} />
+                <Route path="/glossary" element={<GlossaryPage />} />
+                <Route path="/teacher" element={<TeacherDashboardPage />} />
+                <Route path="/teacher/codes" element={<SubmissionCodesPage />} />
+            </Routes>
+        </ErrorBoundary>
+    );
+};
+
+const App = () => {
+    const [{ answers: loadedAnswers, canSave }] = useState<LoadedAnswers>(loadAnswers);
+    const [answers, setAnswers] = useState<UserAnswers>(loadedAnswers);
+
+    useEffect(() => {
+        // Saving would overwrite stored records that could not be set aside
+        if (canSave) storeAnswers(answers);
+    }, [answers, canSave]);
+
+    const saveAnswers = (workId: string, excerptId: number | typeof VOCABULARY_MODE_KEY, userAnswers: { [key: string]: UserAnswer }, studyTime: number, rounds: { [key: string]: GradingRound[] }) => {
         const answerData: AnswerData = { 
             answers: userAnswers, 
             studyTime,
-            timestamp: Date.now()
+            timestamp: Date.now(),
+            rounds
         };
         setAnswers(prev => {
             const currentWorkAnswers = prev[workId] || {};
@@ -879,7 +2151,26 @@ const App = () => {
         });
     };
 
-    const getAttemptCount = (workId: string, excerptId: number) => {
+    const saveAssessment = (workId: string, excerptId: number, attemptTimestamp: number, questionIndex: number, newAssessment: Omit<RubricAssessment, 'timestamp'>) => {
+        const assessment: RubricAssessment = { ...newAssessment, timestamp: Date.now() };
+        setAnswers(prev => {
+            const currentWorkAnswers = prev[workId] || {};
+            const existingAttempts = currentWorkAnswers[excerptId.toString()] || [];
+            return {
+                ...prev,
+                [workId]: {
+                    ...currentWorkAnswers,
+                    [excerptId.toString()]: existingAttempts.map(attempt =>
+                        attempt.timestamp === attemptTimestamp
+                            ? { ...attempt, assessments: { ...attempt.assessments, [questionIndex]: assessment } }
+                            : attempt
+                    ),
+                },
+            };
+        });
+    };
+
+    const getAttemptCount = (workId: string, excerptId: number | typeof VOCABULARY_MODE_KEY) => {
         return answers[workId]?.[excerptId.toString()]?.length || 0;
     };
     
@@ -887,18 +2178,21 @@ const App = () => {
         setAnswers({});
     };
 
+    const importAnswers = (incoming: UserAnswers) => {
+        setAnswers(prev => mergeAnswers(prev, incoming));
+    };
+
     return (
-        <AnswersContext.Provider value={{ answers, saveAnswers, getAttemptCount, clearAllAnswers }}>
+        <AnswersContext.Provider value={{ answers, saveAnswers, saveAssessment, getAttemptCount, clearAllAnswers, importAnswers }}>
             <HashRouter>
                 <main>
-                    <Routes>
-                        <Route path="/" element={<HomePage />} />
-                        <Route path="/work/:workId" element={<ExcerptListPage />} />
-                        <Route path="/work/:workId/excerpt/:excerptId" element={<QuizPage />} />
-                        <Route path="/work/:workId/excerpt/:excerptId/result" element={<ResultPage />} />
-                        <Route path="/work/:workId/excerpt/:excerptId/submission" element={<SubmissionPage />} />
-                        <Route path="/records" element={<RecordsPage />} />
-                    </Routes>
+                    {!canSave && (
+                        <div role="alert" className="bg-red-50 border-b border-red-200 text-red-700 text-sm px-4 py-3 flex items-center justify-center">
+                            <AlertTriangleIcon className="h-5 w-5 mr-2 flex-shrink-0" />
+                            保存されていた学習記録を読み込めず、退避もできませんでした。記録を消さないよう、いまは新しい記録を保存していません。ブラウザの空き容量を確認してから、ページを再読み込みしてください。
+                        </div>
+                    )}
+                    <AppRoutes />
                 </main>
             </HashRouter>
         </AnswersContext.Provider>
@@ -0,0 +1,40 @@
+// --- Annotation Markers ---
+// Excerpt texts reference Excerpt.notes with ※N markers, where N is the notes key.
+
+const NOTE_MARKER_PATTERN = /※(\d+)/g;
+
+export interface AnnotationCheck {
+  missingNotes: string[];  // Keys referenced by a ※N marker but absent from notes
+  orphanedNotes: string[]; // Keys in notes that no marker references
+}
+
+// Keys of notes referenced by ※N markers in the text, in order of first appearance.
+export const findNoteMarkers = (text: string): string[] => {
+  const keys = Array.from(text.matchAll(NOTE_MARKER_PATTERN), match => match[1]);
+  return [...new Set(keys)];
+};
+
+export const checkAnnotations = (text: string, notes: Record<string, string>): AnnotationCheck => {
+  const markers = findNoteMarkers(text);
+  return {
+    missingNotes: markers.filter(key => notes[key] === undefined),
+    orphanedNotes: Object.keys(notes).filter(key => !markers.includes(key)),
+  };
+};
+
+// Renumbers markers to ※1, ※2, ... in order of first appearance and rekeys notes to match.
+// Notes that no marker references are kept, numbered after the referenced ones, so nothing is lost.
+export const renumberNotes = (text: string, notes: Record<string, string>): { text: string; notes: Record<string, string> } => {
+  const markers = findNoteMarkers(text);
+  const { orphanedNotes } = checkAnnotations(text, notes);
+  const renumbering = new Map<string, string>();
+  [...markers, ...orphanedNotes].forEach((key, i) => renumbering.set(key, String(i + 1)));
+
+  const renumberedText = text.replace(NOTE_MARKER_PATTERN, (_, key: string) => `※${renumbering.get(key)}`);
+  const renumberedNotes: Record<string, string> = {};
+  renumbering.forEach((newKey, oldKey) => {
+    if (notes[oldKey] !== undefined) renumberedNotes[newKey] = notes[oldKey];
+  });
+
+  return { text: renumberedText, notes: renumberedNotes };
+};
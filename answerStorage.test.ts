@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AnswerData } from './types';
+import { CURRENT_STORAGE_VERSION, isAnswerData, loadAnswers, migrateAnswerStore, readQuarantine, storeAnswers, validateAnswerStore } from './answerStorage';
+
+const attempt: AnswerData = { answers: { '0': 'ごん', '1': ['一人'] }, studyTime: 30, timestamp: 1000 };
+
+// localStorage backed by a Map; writes to the keys in failingKeys throw, as when the quota is used up
+const createStorage = (failingKeys: string[] = []) => {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      if (failingKeys.includes(key)) throw new Error('QuotaExceededError');
+      items.set(key, value);
+    },
+    removeItem: (key: string) => { items.delete(key); },
+  };
+};
+
+let storage: ReturnType<typeof createStorage>;
+
+const useStorage = (failingKeys: string[] = []) => {
+  storage = createStorage(failingKeys);
+  vi.stubGlobal('localStorage', storage);
+};
+
+beforeEach(() => {
+  useStorage();
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('isAnswerData', () => {
+  it('accepts attempts with and without round history', () => {
+    expect(isAnswerData(attempt)).toBe(true);
+    expect(isAnswerData({ ...attempt, rounds: { '0': [{ answer: 'ごん', verdict: 'correct', timestamp: 1 }] } })).toBe(true);
+  });
+
+  it('rejects attempts with fields of the wrong type', () => {
+    expect(isAnswerData({ ...attempt, studyTime: '30' })).toBe(false);
+    expect(isAnswerData({ ...attempt, rounds: { '0': [{ answer: 'ごん', verdict: 'maybe', timestamp: 1 }] } })).toBe(false);
+    expect(isAnswerData({ ...attempt, assessments: { '0': { covered: [0], assessedBy: 'teacher', timestamp: 1 } } })).toBe(false);
+  });
+});
+
+describe('migrateAnswerStore', () => {
+  it('upgrades version 1 data unchanged', () => {
+    const data = { gongitsune: { '1': [attempt] } };
+    expect(migrateAnswerStore(data, 1)).toEqual(data);
+  });
+
+  it('throws for a version without a migration', () => {
+    expect(() => migrateAnswerStore({}, 0)).toThrow('No migration from version 0');
+  });
+});
+
+describe('validateAnswerStore', () => {
+  it('keeps valid attempts and reports the others with their location', () => {
+    const { answers, invalid } = validateAnswerStore({
+      gongitsune: { '1': [attempt, { answers: {} }], '2': 'oops' },
+      melos: [],
+    });
+    expect(answers).toEqual({ gongitsune: { '1': [attempt] } });
+    expect(invalid.map(r => r.location)).toEqual(['gongitsune/1[1]', 'gongitsune/2', 'melos']);
+  });
+
+  it('rejects data that is not an object of works', () => {
+    expect(validateAnswerStore([attempt]).invalid).toHaveLength(1);
+  });
+});
+
+describe('loadAnswers', () => {
+  it('starts empty when nothing is stored', () => {
+    expect(loadAnswers()).toEqual({ answers: {}, canSave: true });
+  });
+
+  it('reads version 1 data, stored without an envelope', () => {
+    storage.items.set('userAnswers', JSON.stringify({ gongitsune: { '1': [attempt] } }));
+    expect(loadAnswers()).toEqual({ answers: { gongitsune: { '1': [attempt] } }, canSave: true });
+  });
+
+  it('reads what storeAnswers wrote', () => {
+    storeAnswers({ gongitsune: { '1': [attempt] } });
+    expect(JSON.parse(storage.items.get('userAnswers')!).version).toBe(CURRENT_STORAGE_VERSION);
+    expect(loadAnswers().answers).toEqual({ gongitsune: { '1': [attempt] } });
+  });
+
+  it('quarantines invalid JSON', () => {
+    storage.items.set('userAnswers', '{broken');
+    expect(loadAnswers()).toEqual({ answers: {}, canSave: true });
+    expect(readQuarantine()).toMatchObject([{ location: 'userAnswers', value: '{broken' }]);
+  });
+
+  it('quarantines invalid attempts and returns the valid ones', () => {
+    storage.items.set('userAnswers', JSON.stringify({ version: 2, savedAt: 0, data: { gongitsune: { '1': [attempt, 'oops'] } } }));
+    expect(loadAnswers()).toEqual({ answers: { gongitsune: { '1': [attempt] } }, canSave: true });
+    expect(readQuarantine()).toMatchObject([{ location: 'gongitsune/1[1]', value: 'oops' }]);
+  });
+
+  it('does not quarantine the same record twice when loading again', () => {
+    storage.items.set('userAnswers', '{broken');
+    loadAnswers();
+    loadAnswers();
+    expect(readQuarantine()).toHaveLength(1);
+  });
+
+  it('keeps a copy of data saved by a newer version and reads what it can', () => {
+    const stored = { version: CURRENT_STORAGE_VERSION + 1, savedAt: 0, data: { gongitsune: { '1': [attempt] } } };
+    storage.items.set('userAnswers', JSON.stringify(stored));
+    expect(loadAnswers()).toEqual({ answers: { gongitsune: { '1': [attempt] } }, canSave: true });
+    expect(readQuarantine()).toMatchObject([{ location: 'userAnswers', value: stored }]);
+  });
+
+  it('forbids saving when unreadable data cannot be quarantined', () => {
+    useStorage(['userAnswers.quarantine']);
+    storage.items.set('userAnswers', '{broken');
+    expect(loadAnswers()).toEqual({ answers: {}, canSave: false });
+    expect(storage.items.get('userAnswers')).toBe('{broken');
+  });
+
+  it('forbids saving when invalid attempts cannot be quarantined', () => {
+    useStorage(['userAnswers.quarantine']);
+    storage.items.set('userAnswers', JSON.stringify({ gongitsune: { '1': [attempt, 'oops'] } }));
+    expect(loadAnswers()).toEqual({ answers: { gongitsune: { '1': [attempt] } }, canSave: false });
+  });
+
+  it('forbids saving when the store cannot be read', () => {
+    vi.stubGlobal('localStorage', { getItem: () => { throw new Error('SecurityError'); } });
+    expect(loadAnswers()).toEqual({ answers: {}, canSave: false });
+  });
+});
@@ -0,0 +1,194 @@
+import { AnswerData, GradingRound, RubricAssessment, UserAnswers } from './types';
+
+// --- Answer Storage ---
+// UserAnswers are kept in localStorage inside a versioned envelope. Older data is upgraded through
+// the migration chain below, then checked record by record against the current types. Records that
+// cannot be read are moved to a quarantine key instead of being dropped, so nothing a student did
+// is lost to a bug or a format change.
+
+const STORAGE_KEY = 'userAnswers';
+const QUARANTINE_KEY = 'userAnswers.quarantine';
+
+export const CURRENT_STORAGE_VERSION = 2;
+
+interface StorageEnvelope {
+  version: number;
+  savedAt: number;
+  data: UserAnswers;
+}
+
+export interface LoadedAnswers {
+  answers: UserAnswers;
+  // False when stored data could not be read and could not be copied to the quarantine either:
+  // saving would then overwrite the only copy, so the app must not save.
+  canSave: boolean;
+}
+
+export interface QuarantinedRecord {
+  location: string; // "<workId>/<excerptId>[<index>]" for a single attempt, or the storage key
+  reason: string;
+  value: unknown;   // The record as found; the raw string when it was not valid JSON
+  quarantinedAt: number;
+}
+
+// migrations[n] upgrades the data of a version n store to version n + 1. Bump
+// CURRENT_STORAGE_VERSION and add a step here whenever the stored shape changes.
+const migrations: { [fromVersion: number]: (data: unknown) => unknown } = {
+  // Version 1 was the bare UserAnswers object, without an envelope. Its records already have the
+  // current shape: everything added since (rounds, assessments) is optional.
+  1: data => data,
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isUserAnswer = (value: unknown): boolean =>
+  typeof value === 'string' || (Array.isArray(value) && value.every(item => typeof item === 'string'));
+
+const isGradingRound = (value: unknown): value is GradingRound =>
+  isRecord(value)
+  && isUserAnswer(value.answer)
+  && ['correct', 'partial', 'incorrect', 'pending'].includes(value.verdict as string)
+  && typeof value.timestamp === 'number';
+
+const isRubricAssessment = (value: unknown): value is RubricAssessment =>
+  isRecord(value)
+  && Array.isArray(value.covered) && value.covered.every(index => Number.isInteger(index))
+  && (value.assessedBy === 'self' || value.assessedBy === 'ai')
+  && (value.grader === undefined || typeof value.grader === 'string')
+  && (value.feedback === undefined || typeof value.feedback === 'string')
+  && typeof value.timestamp === 'number';
+
+export const isAnswerData = (value: unknown): value is AnswerData =>
+  isRecord(value)
+  && isRecord(value.answers) && Object.values(value.answers).every(isUserAnswer)
+  && typeof value.studyTime === 'number'
+  && typeof value.timestamp === 'number'
+  && (value.rounds === undefined
+    || (isRecord(value.rounds) && Object.values(value.rounds).every(rounds => Array.isArray(rounds) && rounds.every(isGradingRound))))
+  && (value.assessments === undefined
+    || (isRecord(value.assessments) && Object.values(value.assessments).every(isRubricAssessment)));
+
+// Upgrades stored data of any known version to the current version. Throws when it cannot.
+export const migrateAnswerStore = (data: unknown, version: number): unknown => {
+  let migrated = data;
+  for (let v = version; v < CURRENT_STORAGE_VERSION; v++) {
+    const migrate = migrations[v];
+    if (!migrate) throw new Error(`No migration from version ${v}`);
+    migrated = migrate(migrated);
+  }
+  return migrated;
+};
+
+// Splits data in the current shape into the attempts that are valid and those that are not.
+export const validateAnswerStore = (data: unknown): { answers: UserAnswers; invalid: Omit<QuarantinedRecord, 'quarantinedAt'>[] } => {
+  if (!isRecord(data)) {
+    return { answers: {}, invalid: [{ location: STORAGE_KEY, reason: 'Not an object of works', value: data }] };
+  }
+
+  const answers: UserAnswers = {};
+  const invalid: Omit<QuarantinedRecord, 'quarantinedAt'>[] = [];
+  Object.entries(data).forEach(([workId, excerpts]) => {
+    if (!isRecord(excerpts)) {
+      invalid.push({ location: workId, reason: 'Not an object of excerpts', value: excerpts });
+      return;
+    }
+    Object.entries(excerpts).forEach(([excerptId, attempts]) => {
+      if (!Array.isArray(attempts)) {
+        invalid.push({ location: `${workId}/${excerptId}`, reason: 'Not a list of attempts', value: attempts });
+        return;
+      }
+      attempts.forEach((attempt, index) => {
+        if (isAnswerData(attempt)) {
+          answers[workId] ??= {};
+          (answers[workId][excerptId] ??= []).push(attempt);
+        } else {
+          invalid.push({ location: `${workId}/${excerptId}[${index}]`, reason: 'Not a valid attempt', value: attempt });
+        }
+      });
+    });
+  });
+  return { answers, invalid };
+};
+
+export const readQuarantine = (): QuarantinedRecord[] => {
+  try {
+    const saved = localStorage.getItem(QUARANTINE_KEY);
+    const records: unknown = saved ? JSON.parse(saved) : [];
+    return Array.isArray(records) ? records : [];
+  } catch (error) {
+    console.error("Failed to read quarantined answers from localStorage", error);
+    return [];
+  }
+};
+
+// Returns whether the records are safe in the quarantine.
+const quarantine = (records: Omit<QuarantinedRecord, 'quarantinedAt'>[]): boolean => {
+  const existing = readQuarantine();
+  // Loading twice (React runs state initializers twice in development) must not duplicate records
+  const key = (r: Omit<QuarantinedRecord, 'quarantinedAt'>) => JSON.stringify([r.location, r.reason, r.value]);
+  const existingKeys = new Set(existing.map(key));
+  const newRecords = records.filter(r => !existingKeys.has(key(r)));
+  if (newRecords.length === 0) return true;
+
+  const quarantinedAt = Date.now();
+  try {
+    localStorage.setItem(QUARANTINE_KEY, JSON.stringify([...existing, ...newRecords.map(r => ({ ...r, quarantinedAt }))]));
+  } catch (error) {
+    console.error("Failed to quarantine answers in localStorage", error);
+    return false;
+  }
+  console.warn(`Moved ${newRecords.length} unreadable answer record(s) to localStorage["${QUARANTINE_KEY}"]`, newRecords);
+  return true;
+};
+
+const isEnvelope = (value: unknown): value is Omit<StorageEnvelope, 'data'> & { data: unknown } =>
+  isRecord(value) && Number.isInteger(value.version) && 'data' in value;
+
+export const loadAnswers = (): LoadedAnswers => {
+  let saved: string | null;
+  try {
+    saved = localStorage.getItem(STORAGE_KEY);
+  } catch (error) {
+    console.error("Failed to read answers from localStorage", error);
+    return { answers: {}, canSave: false };
+  }
+  if (!saved) return { answers: {}, canSave: true };
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(saved);
+  } catch (error) {
+    const canSave = quarantine([{ location: STORAGE_KEY, reason: `Not valid JSON: ${error instanceof Error ? error.message : String(error)}`, value: saved }]);
+    return { answers: {}, canSave };
+  }
+
+  // Version 1 stored the UserAnswers object itself
+  const { version, data } = isEnvelope(parsed) ? parsed : { version: 1, data: parsed };
+  let canSave = true;
+  if (version > CURRENT_STORAGE_VERSION) {
+    // Written by a newer version of the app: keep a copy, then read what this version understands
+    canSave = quarantine([{ location: STORAGE_KEY, reason: `Saved by a newer version (${version})`, value: parsed }]);
+  }
+
+  let migrated: unknown;
+  try {
+    migrated = version > CURRENT_STORAGE_VERSION ? data : migrateAnswerStore(data, version);
+  } catch (error) {
+    canSave = quarantine([{ location: STORAGE_KEY, reason: `Migration failed: ${error instanceof Error ? error.message : String(error)}`, value: parsed }]) && canSave;
+    return { answers: {}, canSave };
+  }
+
+  const { answers, invalid } = validateAnswerStore(migrated);
+  canSave = quarantine(invalid) && canSave;
+  return { answers, canSave };
+};
+
+export const storeAnswers = (answers: UserAnswers) => {
+  const envelope: StorageEnvelope = { version: CURRENT_STORAGE_VERSION, savedAt: Date.now(), data: answers };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(envelope));
+  } catch (error) {
+    console.error("Failed to save answers to localStorage", error);
+  }
+};
@@ -0,0 +1,158 @@
+// @vitest-environment jsdom
+import React, { act } from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { getSelectionSpan, renderTextWithAnnotations } from './AnnotatedText';
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+const TEXT = 'ごんは、※1しだのしげった森の中に住んでいました。※12';
+const NOTES = { '1': 'しだ：シダ植物のこと。', '12': '注釈' };
+const FURIGANA = [{ start: 12, end: 13, reading: 'もり' }];
+
+let container: HTMLElement;
+let root: Root;
+
+beforeEach(() => {
+  container = document.createElement('p');
+  document.body.appendChild(container);
+  root = createRoot(container);
+});
+
+afterEach(() => {
+  act(() => root.unmount());
+  container.remove();
+});
+
+const render = (vertical: boolean) => {
+  act(() => root.render(<>{renderTextWithAnnotations(TEXT, NOTES, FURIGANA, vertical)}</>));
+};
+
+// The text nodes a reader can select, in document order: readings and note popovers are left out.
+const selectableTextNodes = (): Text[] => {
+  const walker = document.createTreeWalker(container, NodeFilter.SHOW_TEXT);
+  const nodes: Text[] = [];
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    if (!node.parentElement?.closest('rt, [role="tooltip"]')) nodes.push(node as Text);
+  }
+  return nodes;
+};
+
+// A DOM position for a character offset into TEXT, found by counting the characters rendered before it.
+const domPosition = (offset: number): [Text, number] => {
+  let remaining = offset;
+  const nodes = selectableTextNodes();
+  for (const node of nodes) {
+    if (remaining < node.length) return [node, remaining];
+    remaining -= node.length;
+  }
+  const last = nodes[nodes.length - 1];
+  return [last, last.length];
+};
+
+const select = (start: number, end: number) => {
+  const range = document.createRange();
+  range.setStart(...domPosition(start));
+  range.setEnd(...domPosition(end));
+  const selection = window.getSelection()!;
+  selection.removeAllRanges();
+  selection.addRange(range);
+};
+
+describe('renderTextWithAnnotations', () => {
+  it.each([false, true])('renders the text in order (vertical: %s)', vertical => {
+    render(vertical);
+    expect(selectableTextNodes().map(node => node.data).join('')).toBe(TEXT);
+  });
+});
+
+describe('getSelectionSpan', () => {
+  it.each([false, true])('maps every selection back to its offsets (vertical: %s)', vertical => {
+    render(vertical);
+    for (let start = 0; start < TEXT.length; start++) {
+      for (let end = start + 1; end <= TEXT.length; end++) {
+        select(start, end);
+        expect(getSelectionSpan(container)).toEqual({ start, end });
+      }
+    }
+  });
+
+  it('gives the same span in both writing modes when a selection ends inside a note number', () => {
+    const marker = TEXT.indexOf('※12');
+    render(false);
+    select(0, marker + 2);
+    const horizontal = getSelectionSpan(container);
+    render(true);
+    select(0, marker + 2);
+    expect(getSelectionSpan(container)).toEqual(horizontal);
+    expect(horizontal).toEqual({ start: 0, end: marker + 2 });
+  });
+
+  it('ignores a collapsed selection', () => {
+    render(false);
+    select(3, 3);
+    expect(getSelectionSpan(container)).toBeNull();
+  });
+
+  it('ignores a selection inside a note popover', () => {
+    render(false);
+    const popover = container.querySelector('[role="tooltip"]')!.firstChild!;
+    const range = document.createRange();
+    range.setStart(popover, 0);
+    range.setEnd(popover, 2);
+    window.getSelection()!.removeAllRanges();
+    window.getSelection()!.addRange(range);
+    expect(getSelectionSpan(container)).toBeNull();
+  });
+});
+
+describe('Annotation', () => {
+  const marker = () => container.querySelector<HTMLElement>('[role="button"]')!;
+  const popover = () => container.querySelector<HTMLElement>('[role="tooltip"]')!;
+  const press = (target: EventTarget, key: string) => act(() => { target.dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true })); });
+
+  it('describes its marker by the note', () => {
+    render(false);
+    expect(marker().getAttribute('aria-describedby')).toBe(popover().id);
+    expect(popover().textContent).toContain(NOTES['1']);
+  });
+
+  it('opens and closes on click', () => {
+    render(false);
+    act(() => marker().click());
+    expect(marker().getAttribute('aria-expanded')).toBe('true');
+    act(() => marker().click());
+    expect(marker().getAttribute('aria-expanded')).toBe('false');
+  });
+
+  it('opens with Enter and closes with Escape, returning focus to the marker', () => {
+    render(false);
+    press(marker(), 'Enter');
+    expect(marker().getAttribute('aria-expanded')).toBe('true');
+    press(document, 'Escape');
+    expect(marker().getAttribute('aria-expanded')).toBe('false');
+    expect(document.activeElement).toBe(marker());
+  });
+
+  it('closes on a tap outside but not on a tap inside', () => {
+    render(false);
+    act(() => marker().click());
+    act(() => { popover().dispatchEvent(new Event('pointerdown', { bubbles: true })); });
+    expect(marker().getAttribute('aria-expanded')).toBe('true');
+    act(() => { document.body.dispatchEvent(new Event('pointerdown', { bubbles: true })); });
+    expect(marker().getAttribute('aria-expanded')).toBe('false');
+  });
+
+  it('moves focus to the note in the list', () => {
+    const entry = document.createElement('li');
+    entry.id = 'note-1';
+    entry.tabIndex = -1;
+    entry.scrollIntoView = () => {};
+    document.body.appendChild(entry);
+    render(false);
+    act(() => marker().click());
+    act(() => popover().querySelector('button')!.click());
+    expect(document.activeElement).toBe(entry);
+    entry.remove();
+  });
+});
@@ -0,0 +1,163 @@
+import React, { useState, useEffect, useRef, useId } from 'react';
+import { Furigana } from '../types';
+import { TextSpan } from '../grading';
+
+// --- Annotated Excerpt Text ---
+// The excerpt text with its ※N note markers and furigana, in horizontal or vertical writing.
+// Every piece of text carries its offset into the excerpt text (data-offset), so a selection can
+// be mapped back to character offsets for highlight answers.
+
+// Opens on tap, click or keyboard focus (not just hover, which touch screens lack) and closes on
+// a tap outside, Escape, or when focus leaves it. In vertical text the marker's number is set
+// upright within the column (縦中横) and the note opens beside the column, as horizontal text.
+const Annotation = ({ text, noteKey, note, offset, vertical = false }: { text: string; noteKey: string; note: string; offset: number; vertical?: boolean }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLSpanElement>(null);
+  const markerRef = useRef<HTMLSpanElement>(null);
+  const popoverId = useId();
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape') return;
+      // Focus first: focusing the marker from the keyboard opens it, and closing must win
+      markerRef.current?.focus();
+      setIsOpen(false);
+    };
+    document.addEventListener('pointerdown', handlePointerDown);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('pointerdown', handlePointerDown);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  const handleBlur = (e: React.FocusEvent) => {
+    if (!containerRef.current?.contains(e.relatedTarget as Node | null)) setIsOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault();
+      setIsOpen(open => !open);
+    }
+  };
+
+  const showInList = () => {
+    const entry = document.getElementById(`note-${noteKey}`);
+    if (!entry) return;
+    entry.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    entry.focus({ preventScroll: true });
+  };
+
+  const visibility = isOpen ? 'opacity-100 pointer-events-auto' : 'opacity-0 group-hover:opacity-100 pointer-events-none';
+  const position = vertical
+    ? 'right-full top-0 mr-2 [writing-mode:horizontal-tb] leading-normal'
+    : 'bottom-full mb-2 left-1/2 -translate-x-1/2';
+
+  return (
+    <span ref={containerRef} className="relative group" onBlur={handleBlur}>
+      <span
+        ref={markerRef}
+        data-offset={offset}
+        role="button"
+        tabIndex={0}
+        aria-label={`注釈${noteKey}`}
+        aria-expanded={isOpen}
+        aria-controls={popoverId}
+        aria-describedby={popoverId}
+        onClick={() => setIsOpen(open => !open)}
+        // A tap also focuses the marker; only keyboard focus should open it, or the click would close it again
+        onFocus={(e) => { if (e.currentTarget.matches(':focus-visible')) setIsOpen(true); }}
+        onKeyDown={handleKeyDown}
+        className="text-blue-600 font-bold cursor-pointer underline decoration-dotted decoration-blue-600/50 rounded focus:outline-none focus-visible:ring-2 focus-visible:ring-sky-400"
+      >
+        {vertical ? <>{text.charAt(0)}<span data-offset={offset + 1} className="[text-combine-upright:all]">{text.slice(1)}</span></> : text}
+      </span>
+      <span
+        id={popoverId}
+        role="tooltip"
+        className={`absolute w-64 bg-slate-800 text-white text-sm rounded-lg p-3 transition-opacity duration-300 z-10 ${position} ${visibility}`}
+      >
+        {note}
+        {isOpen && (
+          <button type="button" onClick={showInList} className="block mt-2 text-sky-300 hover:underline">
+            注釈一覧で見る
+          </button>
+        )}
+        {!vertical && (
+          <svg className="absolute text-slate-800 h-2 w-full left-0 top-full" x="0px" y="0px" viewBox="0 0 255 255">
+            <polygon className="fill-current" points="0,0 127.5,127.5 255,0"/>
+          </svg>
+        )}
+      </span>
+    </span>
+  );
+};
+
+// Readings are rendered as <rt> without a data-offset and cannot be selected, so they never
+// count towards a selection's offsets.
+const renderTextWithFurigana = (text: string, offset: number, furigana: Furigana[]) => {
+  const nodes: React.ReactNode[] = [];
+  let position = offset;
+  furigana
+    .filter(f => f.start >= position && f.end <= offset + text.length)
+    .forEach(f => {
+      if (f.start < position) return; // Overlaps the previous reading
+      if (f.start > position) {
+        nodes.push(<span key={position} data-offset={position}>{text.slice(position - offset, f.start - offset)}</span>);
+      }
+      nodes.push(
+        <ruby key={f.start}>
+          <span data-offset={f.start}>{text.slice(f.start - offset, f.end - offset)}</span>
+          <rt className="select-none">{f.reading}</rt>
+        </ruby>
+      );
+      position = f.end;
+    });
+  if (position < offset + text.length || nodes.length === 0) {
+    nodes.push(<span key={position} data-offset={position}>{text.slice(position - offset)}</span>);
+  }
+  return nodes;
+};
+
+// Each piece of text is tagged with its offset into the source string (data-offset),
+// so a selection in the rendered text can be mapped back to character offsets.
+export const renderTextWithAnnotations = (text: string, notes: Record<string, string>, furigana: Furigana[] = [], vertical = false) => {
+  const parts = text.split(/(※\d+)/g);
+  let offset = 0;
+  return parts.map((part, index) => {
+    const partOffset = offset;
+    offset += part.length;
+    if (part.match(/※\d+/)) {
+      const noteKey = part.replace('※', '');
+      if (notes[noteKey]) {
+        return <Annotation key={index} text={part} noteKey={noteKey} note={notes[noteKey]} offset={partOffset} vertical={vertical} />;
+      }
+      return <span key={index} data-offset={partOffset} className="text-slate-400" title="注釈がありません">{part}</span>;
+    }
+    return <React.Fragment key={index}>{renderTextWithFurigana(part, partOffset, furigana)}</React.Fragment>;
+  });
+};
+
+const resolveTextOffset = (container: HTMLElement, node: Node, nodeOffset: number): number | null => {
+  if (node.nodeType !== Node.TEXT_NODE || !container.contains(node)) return null;
+  const owner = node.parentElement?.closest('[data-offset]');
+  if (!owner || !container.contains(owner)) return null;
+  return Number(owner.getAttribute('data-offset')) + nodeOffset;
+};
+
+// The current text selection as offsets into the text rendered inside the container, or null
+// if nothing (or something outside the text, such as an annotation popover) is selected.
+export const getSelectionSpan = (container: HTMLElement | null): TextSpan | null => {
+  const selection = window.getSelection();
+  if (!container || !selection || selection.rangeCount === 0 || selection.isCollapsed) return null;
+  const range = selection.getRangeAt(0);
+  const start = resolveTextOffset(container, range.startContainer, range.startOffset);
+  const end = resolveTextOffset(container, range.endContainer, range.endOffset);
+  if (start === null || end === null || end <= start) return null;
+  return { start, end };
+};
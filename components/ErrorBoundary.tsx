@@ -0,0 +1,41 @@
+import React from 'react';
+
+interface ErrorBoundaryProps {
+  children: React.ReactNode;
+  fallback: (error: unknown, reset: () => void) => React.ReactNode;
+  resetKey?: string; // The boundary clears its error when this changes, e.g. on navigation
+}
+
+interface ErrorBoundaryState {
+  error: unknown;
+  errorKey?: string;
+}
+
+export class ErrorBoundary extends React.Component<ErrorBoundaryProps, ErrorBoundaryState> {
+  state: ErrorBoundaryState = { error: null };
+
+  static getDerivedStateFromError(error: unknown): Partial<ErrorBoundaryState> {
+    return { error };
+  }
+
+  static getDerivedStateFromProps(props: ErrorBoundaryProps, state: ErrorBoundaryState): Partial<ErrorBoundaryState> | null {
+    if (state.error === null) return { errorKey: props.resetKey };
+    if (props.resetKey !== state.errorKey) return { error: null, errorKey: props.resetKey };
+    return null;
+  }
+
+  componentDidCatch(error: unknown) {
+    console.error("Unhandled error while rendering a page", error);
+  }
+
+  reset = () => {
+    this.setState({ error: null });
+  };
+
+  render() {
+    if (this.state.error !== null) {
+      return this.props.fallback(this.state.error, this.reset);
+    }
+    return this.props.children;
+  }
+}
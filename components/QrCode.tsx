@@ -0,0 +1,32 @@
+import React, { useMemo } from 'react';
+import qrcode from 'qrcode-generator';
+
+interface QrCodeProps {
+  text: string; // ASCII only: the text is encoded in byte mode without a character set
+  className?: string;
+  label?: string;
+}
+
+// The dark modules as a single SVG path, with the 4-module quiet zone the standard requires.
+export const QrCode = ({ text, className, label }: QrCodeProps) => {
+  const { size, path } = useMemo(() => {
+    const qr = qrcode(0, 'M');
+    qr.addData(text);
+    qr.make();
+    const count = qr.getModuleCount();
+    const commands: string[] = [];
+    for (let row = 0; row < count; row++) {
+      for (let col = 0; col < count; col++) {
+        if (qr.isDark(row, col)) commands.push(`M${col + 4},${row + 4}h1v1h-1z`);
+      }
+    }
+    return { size: count + 8, path: commands.join('') };
+  }, [text]);
+
+  return (
+    <svg viewBox={`0 0 ${size} ${size}`} className={className} role="img" aria-label={label} shapeRendering="crispEdges">
+      <rect width={size} height={size} fill="#fff" />
+      <path d={path} fill="#000" />
+    </svg>
+  );
+};
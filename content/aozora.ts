@@ -0,0 +1,153 @@
+import { Excerpt, Furigana } from '../types';
+import { parseRubyMarkup } from '../ruby';
+
+// --- Aozora Bunko Import ---
+// Parses Aozora Bunko texts (the ruby-annotated .txt files or the XHTML pages) into paragraphs of
+// plain text with structured furigana, and builds Excerpt skeletons from ranges of those paragraphs.
+// Used by scripts/importAozora.ts.
+
+export interface RubyText {
+  text: string;
+  furigana: Furigana[]; // Offsets into text
+}
+
+export interface AozoraText {
+  title: string;
+  author: string;
+  paragraphs: RubyText[];
+  warnings: string[]; // Things the importer could not convert faithfully, e.g. unsupported gaiji
+}
+
+export interface ParagraphRange {
+  first: number; // 1-based and inclusive, as numbered in the import script's paragraph list
+  last: number;
+}
+
+const SEPARATOR_LINE = /^-{10,}$/;
+const FOOTER_START = /^底本[:：]/;
+const NOTATION = /［＃[^］]*］/g;
+// ※［＃「木＋去」、U+5274、...］ or ※［＃「口＋世」、第3水準1-14-87、...］
+const GAIJI = /※［＃([^］]*)］/g;
+
+const toCharacter = (description: string, warnings: string[]): string => {
+  const codePoint = description.match(/U\+([0-9A-Fa-f]{4,6})/);
+  if (codePoint) return String.fromCodePoint(parseInt(codePoint[1], 16));
+  warnings.push(`Gaiji replaced with 〓: ${description}`);
+  return '〓';
+};
+
+// Converts one line of Aozora notation into plain text with furigana: ruby becomes structured
+// furigana, gaiji with a Unicode code point become that character, and other ［＃...］ notations
+// (headings, indentation, emphasis) are dropped.
+export const parseRubyLine = (line: string, warnings: string[] = []): RubyText => {
+  const withGaiji = line.replace(GAIJI, (_, description: string) => toCharacter(description, warnings));
+  return parseRubyMarkup(withGaiji.replace(NOTATION, ''));
+};
+
+const toParagraphs = (lines: string[], warnings: string[]): RubyText[] =>
+  lines
+    .map(line => parseRubyLine(line, warnings))
+    .map(({ text, furigana }) => {
+      // Drop the paragraph indent; excerpts are stored without it
+      const indent = text.length - text.replace(/^[\s　]+/, '').length;
+      return {
+        text: text.slice(indent).trimEnd(),
+        furigana: furigana.map(f => ({ ...f, start: f.start - indent, end: f.end - indent })).filter(f => f.start >= 0),
+      };
+    })
+    .filter(p => p.text.length > 0);
+
+// The ruby-annotated .txt format: title and author lines, an optional block explaining the
+// notation between two dashed lines, the body, and a footer starting with 底本：.
+export const parseAozoraText = (source: string): AozoraText => {
+  const lines = source.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const separators = lines.flatMap((line, i) => SEPARATOR_LINE.test(line) ? [i] : []);
+  const headerEnd = separators.length >= 2 ? separators[0] : lines.findIndex(line => line.trim() === '');
+  const bodyStart = separators.length >= 2 ? separators[1] + 1 : headerEnd + 1;
+  const footerStart = lines.findIndex((line, i) => i >= bodyStart && FOOTER_START.test(line));
+
+  const header = lines.slice(0, Math.max(headerEnd, 0)).map(line => line.trim()).filter(Boolean);
+  const warnings: string[] = [];
+  return {
+    title: header[0] ?? '',
+    author: header.length > 1 ? header[header.length - 1] : '',
+    paragraphs: toParagraphs(lines.slice(bodyStart, footerStart === -1 ? undefined : footerStart), warnings),
+    warnings,
+  };
+};
+
+const decodeEntities = (html: string): string =>
+  html
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec: string) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&quot;/g, '"')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+
+const stripTags = (html: string): string => decodeEntities(html.replace(/<[^>]*>/g, ''));
+
+const getElementText = (html: string, className: string): string => {
+  const match = html.match(new RegExp(`<(\\w+)[^>]*class="${className}"[^>]*>([\\s\\S]*?)</\\1>`));
+  return match ? stripTags(match[2]).trim() : '';
+};
+
+// The XHTML pages: the body is in div.main_text, with <ruby> elements, <br /> line breaks and
+// gaiji as <img class="gaiji">. The markup is rewritten to the .txt notation and parsed as above.
+export const parseAozoraXhtml = (source: string): AozoraText => {
+  const start = source.search(/<div[^>]*class="main_text"[^>]*>/);
+  if (start === -1) throw new Error('No <div class="main_text"> found; is this an Aozora Bunko XHTML file?');
+  const footer = source.indexOf('<div class="bibliographical_information"', start);
+  const body = source.slice(source.indexOf('>', start) + 1, footer === -1 ? undefined : footer);
+
+  const text = body
+    .replace(/<img[^>]*class="gaiji"[^>]*>/g, img => `※［＃${(img.match(/alt="([^"]*)"/)?.[1] ?? '').replace(/^※[（(]?|[）)]$/g, '')}］`)
+    .replace(/<span class="notes">[\s\S]*?<\/span>/g, '')
+    .replace(/<rp>[\s\S]*?<\/rp>/g, '')
+    .replace(/<ruby>(?:<rb>)?([\s\S]*?)(?:<\/rb>)?<rt>([\s\S]*?)<\/rt><\/ruby>/g,
+      (_, base: string, reading: string) => `｜${stripTags(base)}《${stripTags(reading)}》`)
+    .replace(/<br\s*\/?>/g, '\n')
+    .replace(/<\/(?:div|p|h\d)>/g, '\n');
+
+  const warnings: string[] = [];
+  return {
+    title: getElementText(source, 'title'),
+    author: getElementText(source, 'author'),
+    paragraphs: toParagraphs(stripTags(text).split('\n'), warnings),
+    warnings,
+  };
+};
+
+export const parseAozora = (source: string, fileName: string): AozoraText =>
+  /\.x?html?$/i.test(fileName) ? parseAozoraXhtml(source) : parseAozoraText(source);
+
+// Parses "3-10" or "12" into a range.
+export const parseParagraphRange = (spec: string): ParagraphRange | null => {
+  const match = spec.trim().match(/^(\d+)(?:-(\d+))?$/);
+  if (!match) return null;
+  const first = Number(match[1]);
+  const last = Number(match[2] ?? match[1]);
+  return first >= 1 && last >= first ? { first, last } : null;
+};
+
+// Joins the paragraphs in range into one excerpt, without separators, as the existing works do.
+export const buildExcerpt = (paragraphs: RubyText[], range: ParagraphRange, id: number): Excerpt => {
+  if (range.last > paragraphs.length) {
+    throw new Error(`Paragraph ${range.last} does not exist; the text has ${paragraphs.length} paragraphs.`);
+  }
+  let text = '';
+  const furigana: Furigana[] = [];
+  paragraphs.slice(range.first - 1, range.last).forEach(p => {
+    furigana.push(...p.furigana.map(f => ({ ...f, start: f.start + text.length, end: f.end + text.length })));
+    text += p.text;
+  });
+  return {
+    id,
+    subtitle: '',
+    text,
+    notes: {},
+    ...(furigana.length > 0 ? { furigana } : {}),
+    questions: [],
+  };
+};
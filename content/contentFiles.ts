@@ -0,0 +1,60 @@
+import { readdirSync, readFileSync } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { Ajv } from 'ajv';
+import { parse as parseYaml } from 'yaml';
+import { Work } from '../types';
+import { workSchema } from './workSchema';
+
+// --- Work Content Files (Node only) ---
+// Reading and schema validation of content/works/*, shared by the Vite plugin and the scripts/.
+// The app itself imports the same files through import.meta.glob in data.ts.
+
+export const WORKS_DIR = fileURLToPath(new URL('./works', import.meta.url));
+
+const WORK_FILE_PATTERN = /\.(json|ya?ml)$/;
+
+const ajv = new Ajv({ allErrors: true });
+const validateWork = ajv.compile(workSchema);
+
+export interface WorkFile {
+  file: string;  // File name within content/works/
+  work?: Work;   // Missing when the file could not be parsed or does not match the schema
+  errors: string[];
+}
+
+export const isWorkFile = (filePath: string): boolean => WORK_FILE_PATTERN.test(filePath);
+
+export const parseWorkSource = (source: string, filePath: string): unknown =>
+  /\.ya?ml$/.test(filePath) ? parseYaml(source) : JSON.parse(source);
+
+// Schema violations as "<path> <message>" strings; empty when the data is a valid work.
+export const getSchemaErrors = (data: unknown): string[] => {
+  if (validateWork(data)) return [];
+  return (validateWork.errors ?? []).map(error => `${error.instancePath || '/'} ${error.message ?? 'is invalid'}`);
+};
+
+export const readWorkFile = (file: string, dir: string = WORKS_DIR): WorkFile => {
+  let data: unknown;
+  try {
+    data = parseWorkSource(readFileSync(path.join(dir, file), 'utf-8'), file);
+  } catch (error) {
+    return { file, errors: [`Could not parse: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+  const errors = getSchemaErrors(data);
+  return errors.length > 0 ? { file, errors } : { file, work: data as Work, errors };
+};
+
+// All work files, in the same order as the app lists them (by file name).
+export const readWorkFiles = (dir: string = WORKS_DIR): WorkFile[] =>
+  readdirSync(dir).filter(isWorkFile).sort().map(file => readWorkFile(file, dir));
+
+// Like readWorkFiles, but throws if any file is invalid.
+export const loadWorks = (dir: string = WORKS_DIR): Work[] => {
+  const files = readWorkFiles(dir);
+  const invalid = files.filter(f => f.errors.length > 0);
+  if (invalid.length > 0) {
+    throw new Error(invalid.map(f => `${f.file}:\n  ${f.errors.join('\n  ')}`).join('\n'));
+  }
+  return files.map(f => f.work as Work);
+};
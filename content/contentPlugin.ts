@@ -0,0 +1,73 @@
+import path from 'path';
+import type { Plugin, ViteDevServer } from 'vite';
+import { WORKS_DIR, isWorkFile, parseWorkSource, getSchemaErrors, readWorkFiles } from './contentFiles';
+import { Work, WorkSummary } from '../types';
+import { resolveWorkRuby } from '../ruby';
+
+const WORK_INDEX_ID = 'virtual:work-index';
+const RESOLVED_WORK_INDEX_ID = '\0' + WORK_INDEX_ID;
+
+const isInWorksDir = (filePath: string): boolean => path.dirname(path.resolve(filePath)) === WORKS_DIR;
+
+// Validates every work file the app imports against the schema, failing the build (or showing
+// the error overlay in dev) when one does not match, resolves ruby markup in excerpt texts into
+// furigana (see ruby.ts), and turns YAML work files into JS modules.
+// Also provides `virtual:work-index`: the WorkSummary of every work, so the full works can be
+// loaded lazily.
+export const contentPlugin = (): Plugin => ({
+  name: 'dokkai-content',
+  enforce: 'pre',
+  resolveId(id) {
+    return id === WORK_INDEX_ID ? RESOLVED_WORK_INDEX_ID : null;
+  },
+  load(id) {
+    if (id !== RESOLVED_WORK_INDEX_ID) return null;
+    const files = readWorkFiles();
+    const invalid = files.filter(f => f.errors.length > 0);
+    if (invalid.length > 0) {
+      this.error(`Invalid work files:\n${invalid.map(f => `${f.file}:\n  ${f.errors.join('\n  ')}`).join('\n')}`);
+    }
+    files.forEach(f => this.addWatchFile(path.join(WORKS_DIR, f.file)));
+    const index: WorkSummary[] = files.flatMap(({ file, work }) => work ? [{
+      id: work.id,
+      author: work.author,
+      title: work.title,
+      description: work.description,
+      excerptCount: work.excerpts.length,
+      file,
+    }] : []);
+    return `export default ${JSON.stringify(index)};`;
+  },
+  configureServer(server: ViteDevServer) {
+    // Keep the index in sync while `npm run dev` is running
+    const refreshIndex = (filePath: string) => {
+      if (!isInWorksDir(filePath) || !isWorkFile(filePath)) return;
+      const indexModule = server.moduleGraph.getModuleById(RESOLVED_WORK_INDEX_ID);
+      if (indexModule) server.moduleGraph.invalidateModule(indexModule);
+      server.ws.send({ type: 'full-reload' });
+    };
+    server.watcher.on('add', refreshIndex);
+    server.watcher.on('change', refreshIndex);
+    server.watcher.on('unlink', refreshIndex);
+  },
+  transform(code, id) {
+    const filePath = id.split('?')[0];
+    if (!isInWorksDir(filePath) || !isWorkFile(filePath)) return null;
+
+    let data: unknown;
+    try {
+      data = parseWorkSource(code, filePath);
+    } catch (error) {
+      this.error(`Could not parse the work file: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    const errors = getSchemaErrors(data);
+    if (errors.length > 0) {
+      this.error(`The work file does not match the schema:\n  ${errors.join('\n  ')}`);
+    }
+
+    const work = resolveWorkRuby(data as Work);
+    // JSON stays JSON for Vite's own JSON handling
+    if (filePath.endsWith('.json')) return { code: JSON.stringify(work), map: null };
+    return { code: `export default ${JSON.stringify(work)};`, map: null };
+  },
+});
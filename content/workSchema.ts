@@ -0,0 +1,105 @@
+import type { FromSchema } from 'json-schema-to-ts';
+import type { Work } from '../types';
+
+// --- Work Content Schema ---
+// Every file in content/works/ must match this schema; the Vite plugin in contentPlugin.ts and
+// `npm run validate:content` reject files that do not. Keep it in sync with the types in types.ts —
+// the assertions at the bottom of this file fail to type-check when the two drift apart.
+
+const normalizeOptionsSchema = {
+  type: 'object',
+  properties: {
+    nfkc: { type: 'boolean' },
+    stripPunctuation: { type: 'boolean' },
+    stripWhitespace: { type: 'boolean' },
+    foldKana: { type: 'boolean' },
+  },
+  additionalProperties: false,
+} as const;
+
+const questionSchema = {
+  type: 'object',
+  properties: {
+    type: { enum: ['multiple-choice', 'extraction', 'fill-in-the-blank', 'descriptive', 'sequence', 'highlight'] },
+    q: { type: 'string', minLength: 1 },
+    options: { type: 'array', items: { type: 'string' } },
+    a: {
+      anyOf: [
+        { type: 'string' },
+        { type: 'array', items: { type: 'string' } },
+      ],
+    },
+    scoring: { enum: ['all-or-nothing', 'partial'] },
+    normalize: normalizeOptionsSchema,
+    charLimit: {
+      type: 'object',
+      properties: {
+        min: { type: 'integer', minimum: 0 },
+        max: { type: 'integer', minimum: 1 },
+      },
+      required: ['max'],
+      additionalProperties: false,
+    },
+    rubric: { type: 'array', items: { type: 'string' } },
+    highlightTolerance: {
+      type: 'object',
+      properties: {
+        ignorePunctuation: { type: 'boolean' },
+        extraChars: { type: 'integer', minimum: 0 },
+      },
+      additionalProperties: false,
+    },
+  },
+  required: ['type', 'q', 'a'],
+  additionalProperties: false,
+  // The items of a sequence question are shown shuffled and told apart by their text
+  if: { properties: { type: { const: 'sequence' } } },
+  then: { properties: { a: { type: 'array', items: { type: 'string' }, minItems: 2, uniqueItems: true } } },
+} as const;
+
+const excerptSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'integer' },
+    subtitle: { type: 'string' },
+    text: { type: 'string' },
+    notes: { type: 'object', additionalProperties: { type: 'string' } },
+    furigana: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          start: { type: 'integer', minimum: 0 },
+          end: { type: 'integer', minimum: 1 },
+          reading: { type: 'string', minLength: 1 },
+        },
+        required: ['start', 'end', 'reading'],
+        additionalProperties: false,
+      },
+    },
+    questions: { type: 'array', items: questionSchema },
+  },
+  required: ['id', 'subtitle', 'text', 'notes', 'questions'],
+  additionalProperties: false,
+} as const;
+
+export const workSchema = {
+  $id: 'https://dokkai-training2-app/work.schema.json',
+  type: 'object',
+  properties: {
+    id: { type: 'string', pattern: '^[a-z0-9-]+$' },
+    author: { type: 'string' },
+    title: { type: 'string' },
+    description: { type: 'string' },
+    excerpts: { type: 'array', items: excerptSchema },
+  },
+  required: ['id', 'author', 'title', 'description', 'excerpts'],
+  additionalProperties: false,
+} as const;
+
+export type SchemaWork = FromSchema<typeof workSchema>;
+
+// Compile-time check that the schema and the Work type describe the same shape.
+type AssertAssignable<T, U extends T> = U;
+export type SchemaMatchesWork = AssertAssignable<Work, SchemaWork>;
+export type WorkMatchesSchema = AssertAssignable<SchemaWork, Work>;
@@ -0,0 +1,133 @@
+import { Work, Excerpt, Question } from './types';
+import { checkAnnotations } from './annotations';
+
+// --- Content Validation ---
+// Consistency checks for the works in content/works/, run by `npm run validate:content`.
+// The shape of each file is checked separately, against content/workSchema.ts.
+
+export type ContentIssueCode =
+  | 'duplicate-work-id'
+  | 'duplicate-excerpt-id'
+  | 'answer-not-in-text'     // An extraction/highlight answer does not appear verbatim in the excerpt
+  | 'char-count-mismatch'    // The answer's length contradicts "N文字で" / "N文字以内で" in the question
+  | 'answer-not-in-options'  // A multiple-choice answer is not one of the options
+  | 'invalid-sequence'       // A sequence answer is not a list of distinct items, or not a reordering of its options
+  | 'missing-note'           // A ※N marker has no matching key in notes
+  | 'orphaned-note'          // A notes entry has no ※N marker in the text
+  | 'invalid-furigana';      // A furigana span is outside the text, overlaps another, or covers a ※N marker
+
+export interface ContentIssue {
+  code: ContentIssueCode;
+  workId: string;
+  excerptId?: number;
+  questionIndex?: number;
+  message: string;
+}
+
+const CHAR_COUNT_PATTERN = /(\d+)文字(以内)?/;
+
+const toList = (answer: string | string[]): string[] => Array.isArray(answer) ? answer : [answer];
+
+const charLength = (text: string): number => Array.from(text).length;
+
+// Authors count "N文字" both with and without punctuation (大きな、悲劇 is asked for as 5文字),
+// so an answer fits if either count does.
+const charLengths = (text: string): number[] => [charLength(text), charLength(text.replace(/\p{P}/gu, ''))];
+
+const validateQuestion = (question: Question, excerpt: Excerpt): Omit<ContentIssue, 'workId' | 'excerptId' | 'questionIndex'>[] => {
+  const issues: Omit<ContentIssue, 'workId' | 'excerptId' | 'questionIndex'>[] = [];
+  const answers = toList(question.a);
+
+  if (question.type === 'extraction' || question.type === 'highlight') {
+    // Questions that say "注釈から" are answered from the notes rather than the text
+    const sources = question.q.includes('注釈') ? [excerpt.text, ...Object.values(excerpt.notes)] : [excerpt.text];
+    answers
+      .filter(answer => !sources.some(source => source.includes(answer)))
+      .forEach(answer => issues.push({ code: 'answer-not-in-text', message: `Answer "${answer}" is not found verbatim in the excerpt text` }));
+  }
+
+  if (question.type === 'extraction') {
+    const countMatch = question.q.match(CHAR_COUNT_PATTERN);
+    if (countMatch) {
+      const limit = Number(countMatch[1]);
+      const isUpperBound = countMatch[2] !== undefined;
+      const fits = (answer: string) => charLengths(answer).some(length => isUpperBound ? length <= limit : length === limit);
+      if (!answers.some(fits)) {
+        const lengths = answers.map(answer => `"${answer}" (${charLength(answer)})`).join(', ');
+        issues.push({ code: 'char-count-mismatch', message: `Question asks for ${countMatch[0]} but the answer length is ${lengths}` });
+      }
+    }
+  }
+
+  if (question.type === 'multiple-choice') {
+    const options = question.options ?? [];
+    answers
+      .filter(answer => !options.includes(answer))
+      .forEach(answer => issues.push({ code: 'answer-not-in-options', message: `Answer "${answer}" is not one of the options` }));
+  }
+
+  if (question.type === 'sequence') {
+    if (!Array.isArray(question.a) || new Set(question.a).size !== question.a.length) {
+      issues.push({ code: 'invalid-sequence', message: 'The answer must be a list of distinct items in the correct order' });
+    } else if (question.options) {
+      // The quiz shuffles the answer itself, so options, when given, must be the same items
+      const sortedOptions = [...question.options].sort();
+      const sortedAnswer = [...question.a].sort();
+      if (sortedOptions.length !== sortedAnswer.length || sortedOptions.some((option, i) => option !== sortedAnswer[i])) {
+        issues.push({ code: 'invalid-sequence', message: 'The answer is not a reordering of the options' });
+      }
+    }
+  }
+
+  return issues;
+};
+
+export const validateExcerpt = (excerpt: Excerpt, workId: string): ContentIssue[] => {
+  const issues: ContentIssue[] = [];
+
+  const { missingNotes, orphanedNotes } = checkAnnotations(excerpt.text, excerpt.notes);
+  missingNotes.forEach(key => issues.push({ code: 'missing-note', workId, excerptId: excerpt.id, message: `Marker ※${key} has no matching entry in notes` }));
+  orphanedNotes.forEach(key => issues.push({ code: 'orphaned-note', workId, excerptId: excerpt.id, message: `Note "${key}" is not referenced by any ※${key} marker in the text` }));
+
+  const furigana = [...(excerpt.furigana ?? [])].sort((a, b) => a.start - b.start);
+  furigana.forEach((f, i) => {
+    const base = excerpt.text.slice(f.start, f.end);
+    const label = `Furigana "${f.reading}" at ${f.start}-${f.end}`;
+    if (f.end <= f.start || f.end > excerpt.text.length) {
+      issues.push({ code: 'invalid-furigana', workId, excerptId: excerpt.id, message: `${label} is outside the text` });
+    } else if (i > 0 && f.start < furigana[i - 1].end) {
+      issues.push({ code: 'invalid-furigana', workId, excerptId: excerpt.id, message: `${label} overlaps the previous furigana` });
+    } else if (base.includes('※')) {
+      issues.push({ code: 'invalid-furigana', workId, excerptId: excerpt.id, message: `${label} covers a note marker ("${base}")` });
+    }
+  });
+
+  excerpt.questions.forEach((question, questionIndex) => {
+    validateQuestion(question, excerpt).forEach(issue => issues.push({ ...issue, workId, excerptId: excerpt.id, questionIndex }));
+  });
+
+  return issues;
+};
+
+export const validateWorks = (works: Work[]): ContentIssue[] => {
+  const issues: ContentIssue[] = [];
+  const seenWorkIds = new Set<string>();
+
+  works.forEach(work => {
+    if (seenWorkIds.has(work.id)) {
+      issues.push({ code: 'duplicate-work-id', workId: work.id, message: `Work id "${work.id}" is used more than once` });
+    }
+    seenWorkIds.add(work.id);
+
+    const seenExcerptIds = new Set<number>();
+    work.excerpts.forEach(excerpt => {
+      if (seenExcerptIds.has(excerpt.id)) {
+        issues.push({ code: 'duplicate-excerpt-id', workId: work.id, excerptId: excerpt.id, message: `Excerpt id ${excerpt.id} is used more than once` });
+      }
+      seenExcerptIds.add(excerpt.id);
+      issues.push(...validateExcerpt(excerpt, work.id));
+    });
+  });
+
+  return issues;
+};
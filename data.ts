@@ -1,26 +1,33 @@
+import { Work, WorkSummary } from './types';
+import index from 'virtual:work-index';
 
-import { Work } from './types';
-import { mikanWork } from './data/mikan';
-import { hashireMelosWork } from './data/hashireMelos';
-import { sangetsukiWork } from './data/sangetsuki';
-import { yodakaNoHoshiWork } from './data/yodakaNoHoshi';
-import { remonWork } from './data/remon';
-import { gongitsuneWork } from './data/gongitsune';
-import { toshishunWork } from './data/toshishun';
-import { joseitoWork } from './data/joseito';
-import { darakuronWork } from './data/darakuron';
-import { mazushikiHitobitoWork } from './data/mazushikiHitobito';
+// Every file in content/works/ (JSON or YAML, checked against content/workSchema.ts) is a work.
+// Works are listed in file name order, so the files are prefixed with a number: 01-mikan.json.
+//
+// Only the summaries are part of the initial bundle; each full work is a separate chunk
+// loaded the first time a page needs it.
+const workLoaders = import.meta.glob<Work>('./content/works/*.{json,yaml,yml}', { import: 'default' });
 
+export const workIndex: WorkSummary[] = index;
 
-export const works: Work[] = [
-  mikanWork,
-  hashireMelosWork,
-  sangetsukiWork,
-  yodakaNoHoshiWork,
-  remonWork,
-  gongitsuneWork,
-  toshishunWork,
-  joseitoWork,
-  darakuronWork,
-  mazushikiHitobitoWork
-];
\ No newline at end of file
+const loadedWorks = new Map<string, Promise<Work | undefined>>();
+
+// Resolves to undefined for an unknown work id; rejects if the work's chunk cannot be loaded.
+export const loadWork = (workId: string): Promise<Work | undefined> => {
+  const summary = workIndex.find(w => w.id === workId);
+  if (!summary) return Promise.resolve(undefined);
+
+  let pending = loadedWorks.get(workId);
+  if (!pending) {
+    pending = workLoaders[`./content/works/${summary.file}`]();
+    // Forget failed loads so that a retry can succeed, e.g. after a network error
+    pending.catch(() => loadedWorks.delete(workId));
+    loadedWorks.set(workId, pending);
+  }
+  return pending;
+};
+
+export const loadWorks = async (workIds: string[]): Promise<Work[]> => {
+  const works = await Promise.all(workIds.map(loadWork));
+  return works.filter((work): work is Work => work !== undefined);
+};
@@ -1,120 +0,0 @@
-
-import { Work } from '../types';
-
-export const darakuronWork: Work = {
-    id: "darakuron", 
-    author: "坂口安吾", 
-    title: "堕落論", 
-    description: "戦後の混乱期において、偽りの道徳や理想を捨て「堕ちること」で人間本来の姿を取り戻すべきだと説く、衝撃的な評論。", 
-    excerpts: [
-        {
-            id: 1,
-            subtitle: "戦争と日常",
-            text: "戦争に負けたから、※1堕落するのではない。人間だから、堕落するのであり、生きているから、堕落するだけだ。だが、人間は、永遠に堕落し続けることはできない。なぜなら、人間の心は、苦しむからだ。人間は、変化を求める。そして、常に、新しい※2秩序を、作り出そうとする。歴史は、この、くりかえしである。戦争が終わった。我々は、自由になった。しかし、その自由は、我々を、幸福には、しなかった。我々は、ただ、戸惑うばかりであった。昨日までの、絶対の、価値が、一夜にして、無に、帰したのだから。我々は、廃墟の、上に、立っている。そして、そこから、始めなければ、ならないのだ。",
-            notes: { 
-              "1": "堕落（だらく）：ここでは、品性や生活がくずれる、という意味だけでなく、偽りの建前を捨てて、人間本来の姿になる、という意味も含まれる。",
-              "2": "秩序（ちつじょ）：物事の正しい順序や、社会の決まり。"
-            },
-            questions: [
-                { 
-                  type: 'multiple-choice', 
-                  q: "筆者によると、人間が堕落する根本的な理由は何ですか。", 
-                  options: ["戦争に負けたから", "人間であり、生きているから", "貧しいから", "社会が悪いから"], 
-                  a: "人間であり、生きているから" 
-                },
-                { 
-                  type: 'fill-in-the-blank', 
-                  q: "人間は、永遠に堕落し続けられない理由として、「人間の心は、＿＿からだ」と述べている。空欄に当てはまる言葉を答えなさい。", 
-                  a: ["苦しむ"] 
-                },
-                { 
-                  type: 'extraction', 
-                  q: "人間が常に作り出そうとするものを、本文から5文字で抜き出しなさい。", 
-                  a: "新しい秩序" 
-                },
-                { 
-                  type: 'multiple-choice', 
-                  q: "筆者が言う「堕落」の正しい意味合いはどれですか。", 
-                  options: ["ただ品性がくずれること", "偽りの建前を捨て人間本来の姿になること", "戦争に負けてやけになること", "道徳を完全に無視すること"], 
-                  a: "偽りの建前を捨て人間本来の姿になること" 
-                },
-                { 
-                  type: 'extraction', 
-                  q: "我々が立っている場所を、本文から5文字で抜き出しなさい。", 
-                  a: "廃墟の、上" 
-                }
-            ]
-        },
-        {
-            id: 2,
-            subtitle: "特攻隊の美学",
-            text: "※1特攻隊の勇士は、まことに、美しく、※2悲壮であった。だが、彼らが、ただ、美しい、悲壮なだけの存在であったとしたら、我々は、彼らを、それほど、愛し、懐かしむことはないであろう。…彼らは、我々と同じ、ただの人間であった。そして、ただの人間が、死にたくない、という、あたりまえの感情を、押し殺して、死んでいった。その、人間らしさに、我々は、感動するのだ。彼らは、決して、神では、なかった。彼らは、ただの、人間であったからこそ、美しかったのだ。彼らもまた、生き残りたかったはずだ。その、断ち切られた、未来への、思いが、我々の、胸を、打つのである。英雄とは、作られるものではなく、発見されるものだ。",
-            notes: { 
-              "1": "特攻隊（とっこうたい）：第二次世界大戦中、爆弾を積んだ飛行機などで敵艦に体当たり攻撃をした部隊。",
-              "2": "悲壮（ひそう）：悲しい中にも、雄々しく、りりしいこと。"
-            },
-            questions: [
-                { 
-                  type: 'multiple-choice', 
-                  q: "筆者が特攻隊員に感動する最大の理由は何ですか。", 
-                  options: ["彼らが勇敢だったから", "彼らが国のために死んだから", "彼らが死にたくないという人間らしさを持っていたから", "彼らが美しく悲壮だったから"], 
-                  a: "彼らが死にたくないという人間らしさを持っていたから" 
-                },
-                { 
-                  type: 'fill-in-the-blank', 
-                  q: "特攻隊員は「ただの、＿＿であったからこそ、美しかったのだ」。空欄に当てはまる言葉を答えなさい。", 
-                  a: ["人間"] 
-                },
-                { 
-                  type: 'extraction', 
-                  q: "我々の胸を打つ、特攻隊員の断ち切られた思いとは何ですか。本文から「〜思い」の形で6文字で抜き出しなさい。", 
-                  a: "未来への、思い" 
-                },
-                { 
-                  type: 'multiple-choice', 
-                  q: "「悲壮」という言葉の意味として最も近いものはどれですか。", 
-                  options: ["ただ悲しいだけ", "悲しい中に雄々しさがあること", "非常に壮大なこと", "悲しくてみじめなこと"], 
-                  a: "悲しい中に雄々しさがあること" 
-                },
-                { 
-                  type: 'extraction', 
-                  q: "筆者は、英雄は作られるものではなく、何であると述べていますか。本文から7文字で抜き出しなさい。", 
-                  a: "発見されるものだ" 
-                }
-            ]
-        },
-        {
-            id: 3,
-            subtitle: "未亡人の解放",
-            text: "夫が死んだ。子供も、親も、家も、戦争で、みんな、失った。…彼女は、泣き、わめき、そして、やがて、新しい恋人を見つけた。…人々は、彼女を、※1不道徳だ、と、非難するだろう。しかし、私は、彼女を、美しい、と、思う。彼女は、生きている。そして、生きている人間は、常に、新しい希望を、求めるものなのだ。過去に、縛られて、生きることは、できない。それが、人間の、本性なのだ。※2貞淑という、美しい、道徳も、生きている、人間の、前には、無力である。生きることは、常に、裏切ることだ。過去の自分を、裏切り、新しい自分に、生まれ変わることなのだ。",
-            notes: { 
-              "1": "不道徳（ふどうとく）：道徳に反すること。",
-              "2": "貞淑（ていしゅく）：女性が夫以外の男性に心を移さず、純潔を守ること。"
-            },
-            questions: [
-                { 
-                  type: 'extraction', 
-                  q: "戦争ですべてを失った未亡人は、その後どのような行動をとりましたか。本文から9文字で抜き出しなさい。", 
-                  a: "新しい恋人を見つけた" 
-                },
-                { 
-                  type: 'multiple-choice', 
-                  q: "筆者がこの未亡人を「美しい」と思う理由は何ですか。", 
-                  options: ["彼女が美人だから", "世間の非難に屈しないから", "絶望の中でも生き続け、新しい希望を求めているから", "貞淑を守っているから"], 
-                  a: "絶望の中でも生き続け、新しい希望を求めているから" 
-                },
-                { 
-                  type: 'fill-in-the-blank', 
-                  q: "「＿＿という、美しい、道徳も、生きている、人間の、前には、無力である。」空欄に当てはまる言葉を答えなさい。", 
-                  a: ["貞淑"] 
-                },
-                { 
-                  type: 'multiple-choice', 
-                  q: "筆者が考える「生きる」ことの本質とは何ですか。", 
-                  options: ["過去の思い出を大切にすること", "常に道徳的に正しくあること", "過去を裏切り、新しく生まれ変わること", "運命に静かに従うこと"],
-                  a: "過去を裏切り、新しく生まれ変わること"
-                }
-            ]
-        }
-    ]
-};
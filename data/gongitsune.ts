@@ -1,367 +0,0 @@
-
-import { Work } from '../types';
-
-export const gongitsuneWork: Work = {
-    id: "gongitsune", 
-    author: "新美南吉", 
-    title: "ごんぎつね", 
-    description: "いたずら好きの子ぎつね「ごん」と、猟師の「兵十」との間の誤解が生む悲劇を通して、償いと真心の尊さを描く。", 
-    excerpts: [
-      {
-        id: 1,
-        subtitle: "いたずら狐ごん",
-        text: "これは、私が小さいときに、村の茂平というおじいさんからきいたお話です。…中山というところに、ごんという小ぎつねがいました。ごんは、一人ぼっちの小ぎつねで、※1しだのいっぱいしげった森の中に穴をほって住んでいました。そして、夜でも昼でも、あたりの村へ出てきて、いたずらばかりしました。畑へ入っていもをほりちらしたり、菜種のからを、うちへ持ってきたり、いろいろなことをしました。ある秋のことでした。二、三日雨がふりつづいたその間、ごんは、外へも出られなくて、穴の中にしゃがんでいました。退屈で、たまらなかったのです。ごんは、何か、面白いことはないかと、考えていました。この、退屈しのぎの、いたずらが、後に、大きな、悲劇を、生むことになるとは、ごんは、知る由も、ありませんでした。",
-        notes: { "1": "しだ：地面に広がるシダ植物のこと。" },
-        questions: [
-            {
-              type: 'multiple-choice',
-              q: "この物語の主人公は誰ですか。",
-              options: ["茂平", "ごん", "兵十", "私"],
-              a: "ごん"
-            },
-            {
-              type: 'fill-in-the-blank',
-              q: "ごんは「＿＿ぼっちの小ぎつね」で、森の中に住んでいた。空欄に当てはまる言葉を答えなさい。",
-              a: ["一人"]
-            },
-            {
-              type: 'extraction',
-              q: "ごんが村へ出てきてしていたことを、本文から7文字以内で抜き出しなさい。",
-              a: "いたずらばかり"
-            },
-            {
-              type: 'multiple-choice',
-              q: "ごんがいたずらをしようと考えた直接のきっかけは何ですか。",
-              options: ["お腹が空いていたから", "村人に腹を立てていたから", "退屈だったから", "友達に誘われたから"],
-              a: "退屈だったから"
-            },
-            {
-              type: 'extraction',
-              q: "ごんのいたずらが、後に何を生むことになると書かれていますか。本文から5文字で抜き出しなさい。",
-              a: "大きな、悲劇"
-            }
-        ]
-      },
-      {
-        id: 2,
-        subtitle: "兵十のうなぎ",
-        text: "雨があがると、ごんは、ほっとして穴からはい出しました。空はからっと晴れていて、もずの声がキンキンひびいていました。ごんは、村の小川の堤まで出てきました。あたりのすすきの穂には、まだ雨のしずくが光っています。川はいつもは水が少ないのですが、三日もの雨で、水がどっと増していました。ごんは、川の岸をぶらぶら歩いていきました。すると、向こうに、人がいて何かやっています。ごんは、見つからないように、そうっと草の深いところへ歩きよって、そこからじっとのぞいていました。それは、※1兵十という若いお百姓でした。魚をとる、※2びくという、魚を入れるかごを、わきに置いて、何か、一生懸命にやっていました。彼の、背中は、何か、悲しそうに、見えました。",
-        notes: { 
-          "1": "兵十（ひょうじゅう）：この物語のもう一人の主人公。猟師。",
-          "2": "びく：竹で編んだ、魚を入れるためのかご。"
-        },
-        questions: [
-            {
-              type: 'multiple-choice',
-              q: "雨が上がった後、ごんが川で見かけたのは誰でしたか。",
-              options: ["茂平", "弥助", "兵十", "村の子供"],
-              a: "兵十"
-            },
-            {
-              type: 'extraction',
-              q: "兵十の職業を、本文から4文字で抜き出しなさい。",
-              a: "若いお百姓"
-            },
-            {
-              type: 'fill-in-the-blank',
-              q: "ごんは、兵十の様子を「＿＿の深いところへ歩きよって、そこからじっとのぞいていました」。空欄に当てはまる言葉を答えなさい。",
-              a: ["草"]
-            },
-            {
-              type: 'multiple-choice',
-              q: "ごんには、兵十の背中がどのように見えましたか。",
-              options: ["楽しそうに", "怒っているように", "悲しそうに", "急いでいるように"],
-              a: "悲しそうに"
-            },
-            {
-              type: 'extraction',
-              q: "「びく」とは何ですか。注釈から「〜かご」の形で8文字で抜き出しなさい。",
-              a: "魚を入れるためのかご"
-            }
-        ]
-      },
-      {
-        id: 3,
-        subtitle: "うなぎを逃がす",
-        text: "ごんは、いたずらがしたくなりました。兵十が、びくを土手においたまま、どこかへ行ってしまったすきに、ごんは、さっと、びくのそばへかけよって、中のうなぎを、つかみ出しては、ぽい、ぽいと、川の中へ投げこみました。…とうとう、しまいの一ぴきを、つかんで、川へ投げこもうとしましたとき、うしろで、「うわっ、※1ぬすっとぎつねめ。」と、どなる声がしました。ごんは、びっくりして、うなぎをすてて、にげだしました。ふりかえってみますと、兵十が、夢中で追いかけてきました。ごんは、一生けんめいにげました。そして、兵十が、もう追いつけないというところまで来て、初めて、ほっとしました。いたずらが成功して、ごんは、少し、愉快でした。そのうなぎが、どれほど、大切なものだったかも、知らずに。",
-        notes: { "1": "ぬすっとぎつねめ：泥棒の狐め、という意味。相手を罵る言葉。" },
-        questions: [
-            {
-              type: 'multiple-choice',
-              q: "ごんは、兵十が捕ったうなぎをどうしましたか。",
-              options: ["全部食べた", "穴に持って帰った", "川に逃がした", "他の動物にあげた"],
-              a: "川に逃がした"
-            },
-            {
-              type: 'extraction',
-              q: "いたずらの最中、兵十にごんがどなられた言葉を、本文から8文字で抜き出しなさい。",
-              a: "ぬすっとぎつねめ"
-            },
-            {
-              type: 'fill-in-the-blank',
-              q: "兵十に気づかれたごんは、びっくりして「＿＿をすてて、にげだしました」。空欄に当てはまる言葉を答えなさい。",
-              a: ["うなぎ"]
-            },
-            {
-              type: 'multiple-choice',
-              q: "いたずらが成功した後、ごんはどのような気持ちでしたか。",
-              options: ["後悔していた", "少し愉快だった", "悲しかった", "何も感じなかった"],
-              a: "少し愉快だった"
-            },
-            {
-              type: 'extraction',
-              q: "「ぬすっとぎつねめ」の「ぬすっと」とは、どのような意味ですか。注釈から3文字で抜き出しなさい。",
-              a: "泥棒"
-            }
-        ]
-      },
-      {
-        id: 4,
-        subtitle: "兵十の母の死",
-        text: "それから十日ほどたって、ごんが、弥助というお百姓の家の裏を通りかかりますと、弥助の家のかみさんが、…「兵十のおっ母は、病気で寝ていたんだと。それで、うなぎが食べたいと言ったもんだで、兵十が、はりきってとりに行ったんだと。…それだのに、ごんのやつが、ぬすんでっちゃったんだ。」と、言っていました。ごんは、これは、しまった、と思いました。そして、自分のしたことの重大さに気づきました。あのうなぎは、兵十のおっ母が、食べるはずだったのか。ごんは、※1青くなって、その場に、立ちつくしてしまいました。自分の、軽い、いたずら心が、取り返しのつかないことを、してしまったのだと、ごんは、初めて、知ったのです。胸が、どきんとしました。後悔の念が、彼を、襲いました。",
-        notes: { "1": "青くなって（あおくなって）：恐怖や衝撃で、顔が青ざめる様子。" },
-        questions: [
-            {
-              type: 'extraction',
-              q: "兵十がうなぎを捕っていた本当の理由は何でしたか。その目的を、本文から「〜ため」のような形で10文字以内で抜き出しなさい。",
-              a: "病気の母親に食べさせるため"
-            },
-            {
-              type: 'multiple-choice',
-              q: "うなぎが捕れなかった兵十の母親は、その後どうなりましたか。",
-              options: ["元気になった", "別のものを食べた", "亡くなった", "本文からは分からない"],
-              a: "本文からは分からない" // 注：この抜粋だけでは死んだことは確定できないが、後の文脈でわかる。ここでは抜粋内の情報で判断。
-            },
-            {
-              type: 'fill-in-the-blank',
-              q: "真実を知ったごんは、「これは、＿＿、と思いました」。空欄に当てはまる言葉を答えなさい。",
-              a: ["しまった"]
-            },
-            {
-              type: 'multiple-choice',
-              q: "真実を知ったごんはどのような気持ちになりましたか。",
-              options: ["愉快な気持ち", "後悔の念", "怒りの気持ち", "何も感じなかった"],
-              a: "後悔の念"
-            },
-            {
-              type: 'extraction',
-              q: "「青くなって」とはどのような状態ですか。注釈から「〜様子」の形で8文字以内で抜き出しなさい。",
-              a: "顔が青ざめる様子"
-            }
-        ]
-      },
-      {
-        id: 5,
-        subtitle: "償いの始まり",
-        text: "ごんは、とぼとぼと、穴へ帰りました。…（ああ、兵十は、おっ母にうなぎを食べさせてやりたかったろう。気の毒なことをした。）ごんは、次の日から、栗をひろっては、それを、兵十の家へ、持って行ってやりました。…ごんは、家の裏口からのぞいてみました。兵十は、まだ帰っていませんでした。ごんは、今のうちだと思って、うちの中へ入って、土間においた栗を、そっと、置いて帰りました。その次の日も、そのまた次の日も、ごんは、毎日、栗を、兵十の家へ、届けました。そうしなければ、自分の、心が、休まらなかったのです。これが、ごんの、ささやかな※1償いでした。誰にも、知られない、償いでした。",
-        notes: { "1": "償い（つぐない）：自分の犯した罪や過ちを、行動で埋め合わせること。" },
-        questions: [
-            {
-              type: 'multiple-choice',
-              q: "ごんが兵十への償いとして始めたことは何ですか。",
-              options: ["うなぎを捕って届けること", "栗を拾って届けること", "手紙を書いて謝ること", "直接謝りに行くこと"],
-              a: "栗を拾って届けること"
-            },
-            {
-              type: 'extraction',
-              q: "ごんは、栗を家のどこに置きましたか。本文から5文字で抜き出しなさい。",
-              a: "土間においた"
-            },
-            {
-              type: 'fill-in-the-blank',
-              q: "ごんが毎日栗を届けたのは、「自分の、＿＿が、休まらなかった」からだ。空欄に当てはまる言葉を答えなさい。",
-              a: ["心"]
-            },
-            {
-              type: 'multiple-choice',
-              q: "ごんはなぜ、兵十に直接会わずにこっそり栗を届けたのでしょうか。",
-              options: ["兵十を驚かせたかったから", "自分がやったと知られたくなかったから", "兵十に会うのが怖かったから", "BとCの両方"],
-              a: "BとCの両方"
-            },
-            {
-              type: 'extraction',
-              q: "「償い」とはどのようなことですか。注釈から「〜こと」の形で13文字以内で抜き出しなさい。",
-              a: "行動で埋め合わせること"
-            }
-        ]
-      },
-      {
-        id: 6,
-        subtitle: "神様のおくりもの",
-        text: "次の日も、ごんは、栗を持って、兵十の家へ行きました。…その次の日には、ごんは、栗ばかりでなく、まつたけも、二、三本、持って行きました。…兵十は、不思議に思いました。「いったい、だれが、こんなものを、おれの家に、置いていくんだろう。…これは、きっと、神さまが、おれをあわれに思わっしゃって、めぐんでくださるんだ。」兵十は、毎日、※1神だなにお供えをして、それから、お礼を言いました。「神さま、ありがとうございます。」その声を聞いて、ごんは、少し、さびしい、気持ちになりました。でも、兵十が、喜んでくれるなら、それで、いいと、思いました。ごんは、自分が、神様の、使いになったような、気がしました。その、さびしさが、ごんの、心を、ちくりと、刺しました。",
-        notes: { "1": "神だな（かみだな）：神様をまつるために、家の中に設けられた小さな棚。" },
-        questions: [
-            {
-              type: 'extraction',
-              q: "ごんは栗の他に何を届けましたか。本文から4文字で抜き出しなさい。",
-              a: "まつたけ"
-            },
-            {
-              type: 'multiple-choice',
-              q: "兵十は、毎日届けられる栗やまつたけを誰からの贈り物だと考えましたか。",
-              options: ["ごん", "村の人", "茂平", "神様"],
-              a: "神様"
-            },
-            {
-              type: 'fill-in-the-blank',
-              q: "兵十は、毎日「＿＿にお供えをして」、お礼を言った。空欄に当てはまる言葉を答えなさい。",
-              a: ["神だな"]
-            },
-            {
-              type: 'multiple-choice',
-              q: "兵十が神様に感謝しているのを聞いて、ごんはどのような気持ちになりましたか。",
-              options: ["うれしい気持ち", "さびしい気持ち", "腹立たしい気持ち", "誇らしい気持ち"],
-              a: "さびしい気持ち"
-            },
-            {
-              type: 'extraction',
-              q: "兵十が神様からの贈り物だと思った理由を、本文から「〜からだ」の形で13文字以内で抜き出しなさい。",
-              a: "めぐんでくださるんだ"
-            }
-        ]
-      },
-      {
-        id: 7,
-        subtitle: "見つかってしまった善意",
-        text: "ごんは、物置の陰に隠れて、様子をうかがっていました。（兵十は、おれが、栗やまつたけを持ってきてやるのに、神さまにお礼を言っている。…おれは、あいつに、知らせてやりたい。）ごんは、ある時、いわしを、たくさんもらいました。そして、それを、兵十の家へ、持って行きました。ごんが、うちの中へ、いわしをほうりこんで、帰ろうとしますと、うちの中で、兵十の声がしました。「こら、ぬすっとぎつねめ。」兵十は、また、ごんが、いたずらをしに来たと思ったのです。ごんの、※1善意は、またしても、兵十には、届かなかったのです。二人の間の、溝は、ますます、深くなるばかりでした。",
-        notes: { "1": "善意（ぜんい）：相手のためを思う、良い心。" },
-        questions: [
-            {
-              type: 'multiple-choice',
-              q: "兵十が神様に感謝しているのを見て、ごんはどうしたいと思いましたか。",
-              options: ["自分も一緒に感謝したい", "贈り物をやめたい", "自分がやっていると知らせたい", "もっとたくさんの贈り物をしたい"],
-              a: "自分がやっていると知らせたい"
-            },
-            {
-              type: 'extraction',
-              q: "ごんがこの時、兵十の家に届けたものは何ですか。本文から4文字で抜き出しなさい。",
-              a: "いわし"
-            },
-            {
-              type: 'fill-in-the-blank',
-              q: "いわしを届けたごんに対して、兵十は「こら、＿＿。」とどなった。空欄に当てはまる言葉を答えなさい。",
-              a: ["ぬすっとぎつねめ"]
-            },
-            {
-              type: 'multiple-choice',
-              q: "兵十がごんに怒ったのはなぜですか。",
-              options: ["ごんがいわしを盗んだと思ったから", "ごんがまたいたずらをしに来たと思ったから", "ごんが家の中を荒らしたから", "ごんのことが元々嫌いだったから"],
-              a: "ごんがまたいたずらをしに来たと思ったから"
-            },
-            {
-              type: 'extraction',
-              q: "ごんのどのような気持ちが、兵十には届きませんでしたか。本文から2文字で抜き出しなさい。",
-              a: "善意"
-            }
-        ]
-      },
-      {
-        id: 8,
-        subtitle: "悲劇の銃声",
-        text: "ごんは、びくっとして、とびあがりました。兵十は、戸口のところに、立っていました。そして、※1火縄銃を、こちらへ、むけていました。ごんは、逃げようとしましたが、もう、間に合いませんでした。ばあん、という音がして、ごんは、ばたりと、たおれました。兵十は、かけよってきました。家の中を見ると、土間に、いわしが、たくさん、ほうり出してあります。そして、そのいわしのかげに、栗や、まつたけが、かくしてあるのを、見つけました。「これは、いったい、どういうことだ？」兵十は、初めて、自分の、※2早合点に、気づき始めたのでした。彼の、心臓が、冷たくなりました。取り返しのつかない、ことを、してしまった、と、彼は、思った。",
-        notes: { 
-          "1": "火縄銃（ひなわじゅう）：火縄を使って火薬に火をつける、古い形式の銃。",
-          "2": "早合点（はやがてん）：よく確かめもせずに、わかったつもりになること。早とちり。"
-        },
-        questions: [
-             {
-              type: 'multiple-choice',
-              q: "戸口に立っていた兵十が手にしていたものは何ですか。",
-              options: ["魚をとる網", "栗の入ったかご", "火縄銃", "たいまつ"],
-              a: "火縄銃"
-            },
-            {
-              type: 'extraction',
-              q: "兵十が銃を撃った時の音を、本文から4文字で抜き出しなさい。",
-              a: "ばあん"
-            },
-            {
-              type: 'fill-in-the-blank',
-              q: "銃で撃たれたごんは、「＿＿と、たおれました」。空欄に当てはまる言葉を答えなさい。",
-              a: ["ばたり"]
-            },
-            {
-              type: 'multiple-choice',
-              q: "家の中でいわしや栗を見つけた兵十が、気づき始めたことは何ですか。",
-              options: ["ごんが他にも盗みを働いていたこと", "自分の早合点", "村人が贈り物をしていたこと", "神様が本当にいたこと"],
-              a: "自分の早合点"
-            },
-            {
-              type: 'extraction',
-              q: "「早合点」とはどのようなことですか。注釈から「〜こと」の形で9文字以内で抜き出しなさい。",
-              a: "わかったつもりになること"
-            }
-        ]
-      },
-      {
-        id: 9,
-        subtitle: "届かなかった真心",
-        text: "「ごん、おまえだったのか。いつも、栗をくれたのは。」ごんは、ぐったりと目をつぶったまま、うなずきました。兵十は、火縄銃を、ばたりと、とり落しました。青い煙が、まだ、筒口から細く出ていました。「そうか、ごん、おまえだったのか。おれは、なんて、ひどいことを、してしまったんだろう。」兵十の目からは、涙が、ぽたぽたと、落ちました。ごんの、小さな、黒い鼻が、まだ、かすかに、動いているのを、兵十は、ただ、見つめていることしか、できませんでした。ごんの、命の、火が、静かに、消えていくのを、見ているだけでした。※1真心は、あまりに、遅く、伝わったのです。",
-        notes: { "1": "真心（まごころ）：うそやいつわりのない、本当の気持ち。" },
-        questions: [
-            {
-              type: 'multiple-choice',
-              q: "兵十は、いつごんの善意に気づきましたか。",
-              options: ["ごんが栗を届け始めた時", "ごんがうなぎを逃した時", "ごんを銃で撃ってしまった後", "村人から話を聞いた時"],
-              a: "ごんを銃で撃ってしまった後"
-            },
-            {
-              type: 'extraction',
-              q: "兵十の問いかけに、ごんはどのように答えましたか。本文から5文字で抜き出しなさい。",
-              a: "うなずきました"
-            },
-            {
-              type: 'fill-in-the-blank',
-              q: "真実を知った兵十は、「＿＿を、ばたりと、とり落しました」。空欄に当てはまる言葉を答えなさい。",
-              a: ["火縄銃"]
-            },
-            {
-              type: 'multiple-choice',
-              q: "「青い煙が、まだ、筒口から細く出ていました」という描写は、どのような効果がありますか。",
-              options: ["兵十の怒りを表している", "悲劇がたった今起きたばかりの生々しさを表している", "ごんの魂が天に昇る様子を表している", "ただの情景描写で特に意味はない"],
-              a: "悲劇がたった今起きたばかりの生々しさを表している"
-            },
-            {
-              type: 'extraction',
-              q: "「真心」とはどのような気持ちですか。注釈から9文字以内で抜き出しなさい。",
-              a: "うそやいつわりのない、本当の気持ち"
-            }
-        ]
-      },
-      {
-        id: 10,
-        subtitle: "償いの意味",
-        text: "兵十の家と、ごんの穴とは、わずか百歩ほどしか、はなれていませんでした。兵十が、母親のために、うなぎをとったのも、ごんが、そのうなぎを、いたずらのために、にがしてやったのも、みんな、ほんの、ちょっとした、出来心からでした。しかし、その結果は、こんな、ふうな、悲しいことになってしまいました。もし、ごんが、もっと早く、自分の気持ちを、伝えることが、できていたら。もし、兵十が、もっと、ごんのことを、信じてやることが、できていたら。二人の間には、こんな悲劇は、起きなかったかもしれません。茂平じいさんは、そう言って、話を、結びました。そして、私たちに、問いかけるのです。※1真心とは、何か、と。そして、償いとは、何のために、するのか、と。",
-        notes: { "1": "真心（まごころ）：うそやいつわりのない、本当の気持ち。" },
-        questions: [
-            {
-              type: 'multiple-choice',
-              q: "この物語の悲劇の根本的な原因は何だと述べられていますか。",
-              options: ["ごんの悪意", "兵十の冷酷さ", "お互いの気持ちが伝わらなかったこと", "村の貧しさ"],
-              a: "お互いの気持ちが伝わらなかったこと"
-            },
-            {
-              type: 'extraction',
-              q: "ごんの最初のいたずらや兵十がごんを撃った行為の共通の原因を、本文から4文字で抜き出しなさい。",
-              a: "出来心"
-            },
-            {
-              type: 'fill-in-the-blank',
-              q: "もし、兵十がもっとごんのことを「＿＿やることが、できていたら」悲劇は起きなかったかもしれない。空欄に当てはまる言葉を答えなさい。",
-              a: ["信じて"]
-            },
-            {
-              type: 'multiple-choice',
-              q: "茂平じいさんが、この話を通して私たちに問いかけていることは何ですか。",
-              options: ["狐との付き合い方", "銃の正しい使い方", "真心と償いの意味", "親孝行の大切さ"],
-              a: "真心と償いの意味"
-            },
-            {
-              type: 'extraction',
-              q: "ごんの家（穴）と兵十の家は、どのくらい離れていましたか。本文から3文字で抜き出しなさい。",
-              a: "百歩"
-            }
-        ]
-      }
-    ] 
-};
\ No newline at end of file
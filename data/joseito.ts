@@ -1,81 +0,0 @@
-
-import { Work } from '../types';
-
-export const joseitoWork: Work = {
-    id: "joseito", 
-    author: "太宰治", 
-    title: "女生徒", 
-    description: "ある女生徒の一日を、彼女の内的独白を通して描くことで、思春期の少女の揺れ動く繊細な心の内を鮮やかに映し出す。", 
-    excerpts: [
-      {
-          id: 1,
-          subtitle: "朝の憂鬱",
-          text: "朝、眼をさますときの気持は、面白い。眼をさます、というよりは、意識が、自分のからだへ戻って来る、という感じだ。…ああ、いやだ。また、一日がはじまる。どんな一日、なのだろう。おなじような一日なのだろう。ああ、いやだ、いやだ。そう思うと、胸が、どきどきして来る。何か、おそろしいことが、起りそうな、※1予感がする。私は、蒲団の中で、両手を、固く、握りしめる。どうか、何事も、ありませんように。どうか、無事に、今日一日が、過ぎますように。私は、毎朝、こんなふうに、祈っている。ばかみたい。私は、自分の、弱さが、いやになる。この、得体の知れない不安が、私を、支配する。",
-          notes: { "1": "予感（よかん）：これから起こることを、何となく前もって感じること。" },
-          questions: [
-              {
-                type: 'multiple-choice',
-                q: "主人公が朝、一日が始まることに対して抱く感情はどれですか。",
-                options: ["わくわくする期待感", "いやだという拒否と不安", "静かな諦め", "特に何も感じない"],
-                a: "いやだという拒否と不安"
-              },
-              {
-                type: 'fill-in-the-blank',
-                q: "「何か、おそろしいことが、起りそうな、＿＿がする。」空欄に当てはまる言葉を答えなさい。",
-                a: ["予感"]
-              },
-              {
-                type: 'extraction',
-                q: "主人公が毎朝祈っている内容を、本文から「〜ように」の形で13文字以内で抜き出しなさい。",
-                a: "無事に、今日一日が、過ぎますように"
-              },
-              {
-                type: 'multiple-choice',
-                q: "「ばかみたい」と主人公が思うのは、何に対してですか。",
-                options: ["毎朝同じ時間に起きること", "毎朝不安に駆られて祈っている自分自身に対して", "友達との約束", "学校の勉強"],
-                a: "毎朝不安に駆られて祈っている自分自身に対して"
-              },
-              {
-                type: 'extraction',
-                q: "主人公を支配している感情を、本文から8文字で抜き出しなさい。",
-                a: "得体の知れない不安"
-              }
-          ]
-      },
-      {
-        id: 2,
-        subtitle: "バスの中の出来事",
-        text: "バスに乗ったら、ひどく混雑していて、私は、隅のほうで、つり革にぶらさがっていた。すると、私のすぐ前の席に坐っていた労働者風の男のひとが、無言で、席を立って私に合図した。私は、お辞儀をして、その席に坐った。…あたたかい。さっきまで、男のひとが坐っていたので、席が、ほかほかとあたたかいのだ。私は、何だか、とてもうれしくて、顔が、赤くなった。親切にされた、というよりも、その、あたたかさが、人間の、体温が、そのまま伝わって来たような気がして、うれしかったのだ。世の中も、まんざら、捨てたものではない、なんて、単純なことを、考えた。",
-        notes: {},
-        questions: [
-            {
-              type: 'multiple-choice',
-              q: "バスの中で主人公に席を譲ってくれたのは、どのような人でしたか。",
-              options: ["年配の女性", "学生服の少年", "労働者風の男のひと", "親切な運転手"],
-              a: "労働者風の男のひと"
-            },
-            {
-              type: 'extraction',
-              q: "主人公が席に座って「とてもうれしくて、顔が、赤くなった」のはなぜですか。その理由を本文から「〜からだ」の形で20文字以内で抜き出しなさい。",
-              a: "人間の、体温が、そのまま伝わって来たような気がして、うれしかったのだ"
-            },
-            {
-              type: 'fill-in-the-blank',
-              q: "この出来事を通して、主人公は「世の中も、まんざら、＿＿ものではない」と考えた。空欄に当てはまる言葉を答えなさい。",
-              a: ["捨てた"]
-            },
-            {
-              type: 'extraction',
-              q: "主人公が嬉しく感じた席の様子を、本文から5文字で抜き出しなさい。",
-              a: "ほかほかとあたたかい"
-            },
-            {
-              type: 'multiple-choice',
-              q: "この場面は、主人公のどのような心の変化を表していますか。",
-              options: ["人への不信感が強まった", "朝の憂鬱がさらに深まった", "他人のささやかな親切によって心が温まる様子", "社会への怒りを感じる様子"],
-              a: "他人のささやかな親切によって心が温まる様子"
-            }
-        ]
-      }
-    ]
-};
\ No newline at end of file
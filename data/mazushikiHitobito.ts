@@ -1,385 +0,0 @@
-
-import { Work } from '../types';
-
-export const mazushikiHitobitoWork: Work = {
-    id: "mazushiki-hitobito", 
-    author: "宮本百合子", 
-    title: "貧しき人々の群", 
-    description: "ロシア革命直後の貧しい農村を舞台に、過酷な現実を生きる人々の姿を力強く描き、社会の矛盾を問う。", 
-    excerpts: [
-      {
-        id: 1,
-        subtitle: "冬の村",
-        text: "村は、冬枯れの、※1蕭条たる風景の中に、沈んでいた。…家々の屋根には、雪が、まだらに、凍りついている。道は、※2ぬかるんで、歩きにくい。…人々は、みな、貧しかった。そして、その貧しさが、彼らの顔に、暗い影を、落していた。彼らは、希望を、失っていた。ただ、黙々と、日々の、労働に、耐えているだけであった。そこには、笑いも、歌も、なかった。ただ、冷たい風が、ひゅうひゅうと、吹き抜けるばかりであった。まるで、時間が、止まって、しまったかのような、静寂が、村を、支配していた。この、静寂は、死の、静寂に、似ていた。",
-        notes: { 
-          "1": "蕭条たる（しょうじょうたる）：もの寂しく、活気がない様子。",
-          "2": "ぬかるんで：雨や雪解けで地面がどろどろになっている状態。"
-        },
-        questions: [
-            { 
-              type: 'multiple-choice', 
-              q: "物語の舞台となる村の様子として、適切でないものはどれですか。", 
-              options: ["冬枯れで蕭条としている", "人々の顔に暗い影がある", "笑いや歌が絶えない", "道がぬかるんでいる"], 
-              a: "笑いや歌が絶えない" 
-            },
-            { 
-              type: 'fill-in-the-blank', 
-              q: "村を支配していた静寂は、「＿＿の、静寂に、似ていた」。空欄に当てはまる言葉を答えなさい。", 
-              a: ["死"] 
-            },
-            { 
-              type: 'extraction', 
-              q: "村の人々が失っていたものを、本文から2文字で抜き出しなさい。", 
-              a: "希望" 
-            },
-            { 
-              type: 'multiple-choice', 
-              q: "「蕭条たる」という言葉の意味として、最も近いものはどれですか。", 
-              options: ["にぎやかで活気がある", "もの寂しく活気がない", "美しく整っている", "暖かく穏やかである"], 
-              a: "もの寂しく活気がない" 
-            },
-            { 
-              type: 'extraction', 
-              q: "人々がただ黙々と耐えていたものを、本文から「〜労働」の形で5文字で抜き出しなさい。", 
-              a: "日々の、労働" 
-            }
-        ]
-      },
-      {
-        id: 2,
-        subtitle: "サーラの家族",
-        text: "サーラは、六人の子供を持つ、母親であった。夫は、戦争で、死んだ。…彼女は、毎日、朝から晩まで、働いた。しかし、いくら働いても、暮らしは、楽にならなかった。子供たちは、いつも、腹をすかせていた。サーラは、子供たちの、小さな、顔を、見るのが、つらかった。彼女は、神に、祈った。どうか、この子たちに、パンを、与えてください、と。しかし、その祈りが、天に、届くことは、なかった。彼女は、自分の、※1無力さに、絶望していた。そして、その絶望は、彼女の、心を、固く、冷たく、していった。彼女は、もう、涙も、出なかった。",
-        notes: {
-          "1": "無力さ（むりょくさ）：力がなく、どうすることもできないこと。"
-        },
-        questions: [
-            { 
-              type: 'multiple-choice', 
-              q: "主人公サーラはどのような状況にありますか。", 
-              options: ["裕福な家庭の主婦", "戦争で夫を亡くし、六人の子を育てる母親", "村のリーダー", "若い独身の女性"], 
-              a: "戦争で夫を亡くし、六人の子を育てる母親" 
-            },
-            { 
-              type: 'extraction', 
-              q: "サーラの子供たちの状態を表す言葉を、本文から7文字で抜き出しなさい。", 
-              a: "いつも、腹をすかせていた" 
-            },
-            { 
-              type: 'fill-in-the-blank', 
-              q: "絶望によって、サーラの心は「＿＿、＿＿、していった」。空欄に当てはまる言葉をそれぞれ2文字で答えなさい。", 
-              a: ["固く", "冷たく"] 
-            },
-            { 
-              type: 'multiple-choice', 
-              q: "「彼女は、もう、涙も、出なかった。」という一文からわかるサーラの心境はどれですか。", 
-              options: ["悲しみを感じなくなった", "喜びで満たされている", "悲しみを通り越して心が麻痺してしまった", "怒りで涙も出ない"], 
-              a: "悲しみを通り越して心が麻痺してしまった" 
-            },
-            { 
-              type: 'extraction', 
-              q: "サーラが神に祈った内容を、本文から12文字で抜き出しなさい。", 
-              a: "この子たちに、パンを、与えてください" 
-            }
-        ]
-      },
-      {
-        id: 3,
-        subtitle: "パンをめぐる争い",
-        text: "※1配給のパンを、受け取るために、人々は、長い列を、作っていた。…サーラは、何時間も、待った。やっと、彼女の番が来たとき、パンは、もう、残り少なくなっていた。…後ろの男が、サーラを、突き飛ばした。「おれに、よこせ。」男は、叫んだ。サーラの子供たちが、泣き出した。サーラは、必死で、パンを、守った。それは、子供たちの、命であったからだ。彼女は、爪を立て、男に、抵抗した。生きるための、※2獣のような、争いであった。そこには、もはや、人間らしい、情けは、なかった。誰もが、自分の、ことしか、考えられなかった。",
-        notes: { 
-          "1": "配給（はいきゅう）：戦争中など、物資が不足した時に、国や自治体が人々に食料などを計画的に分け与えること。",
-          "2": "獣のような（けもののような）：理性を失い、本能のままに行動する様子。"
-        },
-        questions: [
-            { 
-              type: 'extraction', 
-              q: "人々が長い列を作っていた理由を、本文から12文字で抜き出しなさい。", 
-              a: "配給のパンを、受け取るために" 
-            },
-            { 
-              type: 'fill-in-the-blank', 
-              q: "パンをめぐる争いは、「生きるための、＿＿ような、争いであった」。空欄に当てはまる言葉を答えなさい。", 
-              a: ["獣"] 
-            },
-            { 
-              type: 'multiple-choice', 
-              q: "サーラが必死でパンを守った一番の理由は何ですか。", 
-              options: ["自分が食べたかったから", "パンがとても高価だったから", "それが子供たちの命だったから", "男に負けたくなかったから"], 
-              a: "それが子供たちの命だったから" 
-            },
-            { 
-              type: 'extraction', 
-              q: "この争いにおいて、失われていたものを本文から7文字で抜き出しなさい。", 
-              a: "人間らしい、情け" 
-            },
-            { 
-              type: 'multiple-choice', 
-              q: "この出来事が示している、極限状況における人間の姿とはどのようなものですか。", 
-              options: ["常に助け合う姿", "理性を失い自分の生存を最優先する姿", "神に祈り続ける姿", "静かに運命を受け入れる姿"], 
-              a: "理性を失い自分の生存を最優先する姿" 
-            }
-        ]
-      },
-      {
-        id: 4,
-        subtitle: "老婆の言葉",
-        text: "一人の、老婆が、サーラに、言った。「泣くんじゃないよ。…わしたちは、みんな、同じだ。貧乏は、わしたちの、※1運命なんだよ。…だがね、いつか、きっと、いい日が、来るさ。神様は、見てござるよ。」老婆の、しわくちゃな顔に、かすかな、笑みが、浮かんだ。そして、老婆は、自分の、パンの、半分を、ちぎって、サーラの、子供たちに、与えた。サーラは、その、小さな、パンの、温かさに、涙が、止まらなかった。それは、人間の、優しさの、温かさであった。この、厳しい、世界にも、まだ、希望は、残っていると、彼女は、思った。",
-        notes: {
-          "1": "運命（うんめい）：人間の意志とは関係なく、身の上にめぐってくる吉凶や幸不幸。"
-        },
-        questions: [
-            { 
-              type: 'multiple-choice', 
-              q: "老婆がサーラを慰めるために語った希望の根拠は何ですか。", 
-              options: ["革命が近いこと", "神様が見ていてくれること", "地主が助けてくれること", "春になれば豊作になること"], 
-              a: "神様が見ていてくれること" 
-            },
-            { 
-              type: 'extraction', 
-              q: "老婆がサーラにした具体的な行動を、本文から16文字で抜き出しなさい。", 
-              a: "自分の、パンの、半分を、ちぎって、サーラの、子供たちに、与えた" 
-            },
-            { 
-              type: 'fill-in-the-blank', 
-              q: "サーラが涙を流したのは、「人間の、＿＿の、温かさ」を感じたからだ。空欄に当てはまる言葉を答えなさい。", 
-              a: ["優しさ"] 
-            },
-            { 
-              type: 'multiple-choice', 
-              q: "この老婆の行動は、前の場面の「獣のような争い」と対比して何を表現していますか。", 
-              options: ["老婆の計算高さ", "極限状況でも失われない人間性", "宗教の無力さ", "運命への諦め"], 
-              a: "極限状況でも失われない人間性" 
-            },
-            { 
-              type: 'extraction', 
-              q: "老婆の行動によって、サーラは世界に何が残っていると思いましたか。本文から2文字で抜き出しなさい。", 
-              a: "希望" 
-            }
-        ]
-      },
-      {
-        id: 5,
-        subtitle: "革命の噂",
-        text: "村に、新しい、噂が、流れた。都会では、※1ボリシェヴィキが、権力を、握った、というのだ。…「彼らは、貧乏人の、味方だそうだ。」「金持の、土地を、取り上げて、わしたちに、分けてくれるそうだ。」人々は、※2半信半疑で、その噂を、ささやき合った。それは、まるで、遠い、国の、おとぎ話のようであった。しかし、人々は、その、おとぎ話に、すがりたかった。それは、暗闇の中に、差し込んだ、一筋の、光のようであった。人々は、その光を、見つめ、何かを、期待し始めた。この、停滞した、村にも、変化が、訪れるかも、しれない。",
-        notes: { 
-          "1": "ボリシェヴィキ：ロシア革命を指導した、レーニンが率いる政党。労働者や農民の解放を掲げた。",
-          "2": "半信半疑（はんしんはんぎ）：半分は信じ、半分は疑っている状態。"
-        },
-        questions: [
-            { 
-              type: 'extraction', 
-              q: "村に流れた、ボリシェヴィキに関する噂の内容を一つ、本文から抜き出しなさい。", 
-              a: ["貧乏人の、味方だそうだ", "金持の、土地を、取り上げて、わしたちに、分けてくれるそうだ"] 
-            },
-            { 
-              type: 'multiple-choice', 
-              q: "村人たちは、その噂をどのように受け止めましたか。", 
-              options: ["全く信じなかった", "すぐに信じて行動した", "半信半疑だったが、希望としてすがりたかった", "無視した"], 
-              a: "半信半疑だったが、希望としてすがりたかった" 
-            },
-            { 
-              type: 'fill-in-the-blank', 
-              q: "その噂は、人々にとって「＿＿の中に、差し込んだ、一筋の、＿＿のようであった」。空欄に当てはまる言葉を答えなさい。", 
-              a: ["暗闇", "光"] 
-            },
-            { 
-              type: 'extraction', 
-              q: "人々が噂に期待し始めたことで、村にどのような可能性が生まれましたか。本文から「〜かもしれない」の形で9文字で抜き出しなさい。", 
-              a: "変化が、訪れるかも、しれない" 
-            },
-            { 
-              type: 'multiple-choice', 
-              q: "「半信半疑」とはどのような状態ですか。", 
-              options: ["完全に信じている", "全く信じていない", "半分は信じ、半分は疑っている", "信じたいと強く願っている"], 
-              a: "半分は信じ、半分は疑っている" 
-            }
-        ]
-      },
-      {
-        id: 6,
-        subtitle: "地主の不安",
-        text: "村の、たった一人の、※1地主は、その噂を、聞いて、不安になった。…彼は、村人たちを、集めて、言った。「ボリシェヴィキは、悪魔だ。彼らは、神を、信じない。…彼らに、だまされるな。わしが、お前たちを、守ってやる。」しかし、彼の言葉を、信じる者は、もう、誰も、いなかった。村人たちは、黙って、地主の、顔を、見ていた。その、目には、不信と、※2軽蔑の、色が、浮かんでいた。地主の、震える、声が、空しく、響くだけであった。村人たちの、沈黙は、どんな、言葉よりも、雄弁であった。人々の、心は、もう、地主から、離れていたのだ。",
-        notes: { 
-          "1": "地主（じぬし）：広大な土地を所有し、農民に土地を貸して生活している人。",
-          "2": "軽蔑（けいべつ）：相手を劣ったものとして、見下し、ばかにすること。"
-        },
-        questions: [
-            { 
-              type: 'fill-in-the-blank', 
-              q: "地主は、ボリシェヴィキのことを「＿＿だ」と村人たちに言った。空欄に当てはまる言葉を答えなさい。", 
-              a: ["悪魔"] 
-            },
-            { 
-              type: 'multiple-choice', 
-              q: "地主の言葉を聞いた村人たちの反応として、正しいものはどれですか。", 
-              options: ["地主の言葉を信じ、感謝した", "地主の言葉に反論した", "地主の言葉を信じず、不信と軽蔑の目で見た", "地主を恐れて逃げ出した"], 
-              a: "地主の言葉を信じず、不信と軽蔑の目で見た" 
-            },
-            { 
-              type: 'extraction', 
-              q: "村人たちの沈黙は、何よりも雄弁だったと書かれていますか。本文から「〜よりも」の形で6文字で抜き出しなさい。", 
-              a: "どんな、言葉よりも" 
-            },
-            { 
-              type: 'multiple-choice', 
-              q: "なぜ村人たちは地主の「守ってやる」という言葉を信じなかったのでしょうか。", 
-              options: ["村人たちが地主より強いから", "これまでの経験から地主を信用していなかったから", "ボリシェヴィキをすでに信じていたから", "地主が貧乏だったから"], 
-              a: "これまでの経験から地主を信用していなかったから" 
-            },
-            { 
-              type: 'extraction', 
-              q: "この時点で、人々の心は地主からどうなっていましたか。本文から6文字で抜き出しなさい。", 
-              a: "離れていたのだ" 
-            }
-        ]
-      },
-      {
-        id: 7,
-        subtitle: "若者パーヴェル",
-        text: "若者の中に、パーヴェルという、男がいた。彼は、都会で、少し、※1学問を、かじったことがあった。…パーヴェルは、言った。「地主様の、言うことは、嘘だ。…革命は、我々、貧しい者が、自分たちの手で、幸福を、つかむための、戦いだ。我々も、立ち上がろう。」彼の、言葉は、力強かった。そして、彼の、目には、未来への、※2確信が、輝いていた。人々は、彼の、言葉に、耳を、傾けた。それは、今まで、聞いたことのない、希望の、言葉であった。それは、彼らの、心に、眠っていた、勇気を、呼び覚ました。彼らは、もう、黙って、従う、だけでは、なかった。",
-        notes: {
-          "1": "学問をかじった：本格的ではないが、少しだけ学んだことがある、という意味。",
-          "2": "確信（かくしん）：固く信じて、疑わないこと。"
-        },
-        questions: [
-            { 
-              type: 'multiple-choice', 
-              q: "パーヴェルが他の村人と違う点は何ですか。", 
-              options: ["地主の親戚であること", "都会で学問をかじったことがあること", "非常に裕福であること", "戦場に行ったことがあること"], 
-              a: "都会で学問をかじったことがあること" 
-            },
-            { 
-              type: 'extraction', 
-              q: "パーヴェルは「革命」を誰のための、どのような戦いだと定義しましたか。本文から21文字で抜き出しなさい。", 
-              a: "我々、貧しい者が、自分たちの手で、幸福を、つかむための、戦い" 
-            },
-            { 
-              type: 'fill-in-the-blank', 
-              q: "パーヴェルの言葉は、人々の心に眠っていた「＿＿を、呼び覚ました」。空欄に当てはまる言葉を答えなさい。", 
-              a: ["勇気"] 
-            },
-            { 
-              type: 'multiple-choice', 
-              q: "パーヴェルの言葉が人々に影響を与えた理由は何ですか。", 
-              options: ["彼が地主よりお金持ちだったから", "彼の言葉が力強く、未来への確信に満ちていたから", "彼が恐ろしい武器を持っていたから", "彼が神のお告げを伝えたから"], 
-              a: "彼の言葉が力強く、未来への確信に満ちていたから" 
-            },
-            { 
-              type: 'extraction', 
-              q: "彼の話を聞いた後、人々はどうなりましたか。本文から「〜なかった」の形で10文字で抜き出しなさい。", 
-              a: "黙って、従う、だけでは、なかった" 
-            }
-        ]
-      },
-      {
-        id: 8,
-        subtitle: "立ち上がる人々",
-        text: "パーヴェルの言葉は、人々の心に、火を、つけた。…今まで、運命だと、諦めていた、貧しさが、自分たちの、力で、打ち破れるものかも知れない。…人々は、手に手に、鍬や、鎌を、持って、地主の、屋敷へ、向かった。サーラも、その、群の中に、いた。彼女の顔には、もう、涙は、なかった。そこには、ただ、固い、※1決意が、あった。子供たちの、未来のために、戦うという、母親の、決意が。その、足取りは、力強く、大地を、踏みしめていた。それは、新しい、時代の、始まりを、告げる、足音であった。彼らは、もう、黙って、奪われるだけの、存在では、なかった。",
-        notes: {
-          "1": "決意（けつい）：自分の意志をはっきりと決めること。"
-        },
-        questions: [
-            { 
-              type: 'extraction', 
-              q: "人々の意識はどのように変わりましたか。本文から「〜かもしれない」の形で14文字で抜き出しなさい。", 
-              a: "自分たちの、力で、打ち破れるものかも知れない" 
-            },
-            { 
-              type: 'multiple-choice', 
-              q: "立ち上がった人々が手に持っていたものは何ですか。", 
-              options: ["パンと水", "銃と剣", "鍬や鎌", "本とペン"], 
-              a: "鍬や鎌" 
-            },
-            { 
-              type: 'fill-in-the-blank', 
-              q: "サーラの顔には涙はなく、ただ固い「＿＿」があった。空欄に当てはまる言葉を答えなさい。", 
-              a: ["決意"] 
-            },
-            { 
-              type: 'extraction', 
-              q: "サーラの決意とは、何のための戦いですか。本文から「〜戦うという」の形で9文字で抜き出しなさい。", 
-              a: "子供たちの、未来のために、戦う" 
-            },
-            { 
-              type: 'multiple-choice', 
-              q: "人々の足音は何を告げていると描写されていますか。", 
-              options: ["冬の終わり", "収穫の喜び", "新しい時代の始まり", "地主への降伏"], 
-              a: "新しい時代の始まり" 
-            }
-        ]
-      },
-      {
-        id: 9,
-        subtitle: "新しい秩序",
-        text: "地主は、逃げ出した。…人々は、地主の、倉を、開け、穀物を、公平に、分け合った。…それは、ほんの、ささやかな、始まりであった。しかし、人々は、感じていた。自分たちの、村に、新しい、※1秩序が、生まれようとしていることを。そして、その、秩序を、作っているのは、自分たち自身なのだ、ということを。彼らは、もう、※2無力な、貧民では、なかった。彼らは、歴史を、動かす、力であった。その、実感が、彼らの、胸を、熱くした。彼らは、互いに、顔を、見合わせ、笑った。それは、長い、冬の、後の、春の、ような、笑顔であった。",
-        notes: {
-          "1": "秩序（ちつじょ）：物事の正しい順序や、社会の決まり。",
-          "2": "無力な（むりょくな）：力がなく、何もできないこと。"
-        },
-        questions: [
-            { 
-              type: 'multiple-choice', 
-              q: "地主が逃げ出した後、人々が最初に行ったことは何ですか。", 
-              options: ["地主の家を燃やした", "穀物を公平に分け合った", "新しい地主を選んだ", "祭りを開催した"], 
-              a: "穀物を公平に分け合った" 
-            },
-            { 
-              type: 'fill-in-the-blank', 
-              q: "人々は、自分たちの村に新しい「＿＿」が生まれようとしていることを感じた。空欄に当てはまる言葉を答えなさい。", 
-              a: ["秩序"] 
-            },
-            { 
-              type: 'extraction', 
-              q: "人々が自分たちのことを「無力な貧民ではない」と感じたのはなぜですか。本文から「〜力であった」の形で8文字で抜き出しなさい。", 
-              a: "歴史を、動かす、力であった" 
-            },
-            { 
-              type: 'multiple-choice', 
-              q: "人々の笑顔は何にたとえられていますか。", 
-              options: ["真夏の太陽", "満月", "嵐の後の虹", "長い冬の後の春"], 
-              a: "長い冬の後の春" 
-            },
-            { 
-              type: 'extraction', 
-              q: "人々が胸を熱くした「実感」とは何ですか。本文から20文字で抜き出しなさい。", 
-              a: "その、秩序を、作っているのは、自分たち自身なのだ、ということ" 
-            }
-        ]
-      },
-      {
-        id: 10,
-        subtitle: "大地の上の群れ",
-        text: "夕日が、雪の残る、大地を、赤く、染めていた。…人々は、分かち合った、穀物の袋を、肩に、担いで、それぞれの、家路に、ついた。彼らの、影は、長く、大地の上に、伸びていた。それは、貧しい、しかし、力強い、人間の、群の、影であった。彼らは、まだ、多くの、困難に、直面するだろう。しかし、彼らは、もう、決して、絶望は、しない。なぜなら、彼らは、自分たちの、力を、信じているからだ。そして、※1連帯の、温かさを、知っているからだ。彼らの、足音は、未来へ、向かって、響いていた。凍てついた、大地にも、やがて、春が、来ることを、信じて。",
-        notes: { "1": "連帯（れんたい）：人々が共通の目的のために、一つに結びつくこと。" },
-        questions: [
-            { 
-              type: 'extraction', 
-              q: "最後の場面で、人々の影はどのように描写されていますか。本文から16文字で抜き出しなさい。", 
-              a: "貧しい、しかし、力強い、人間の、群の、影" 
-            },
-            { 
-              type: 'multiple-choice', 
-              q: "人々が今後決して絶望しない理由として、本文で挙げられていないものはどれですか。", 
-              options: ["自分たちの力を信じているから", "連帯の温かさを知っているから", "地主がいなくなったから", "春が来ることを信じているから"], 
-              a: "地主がいなくなったから" 
-            },
-            { 
-              type: 'fill-in-the-blank', 
-              q: "彼らの足音は「＿＿へ、向かって、響いていた」。空欄に当てはまる言葉を答えなさい。", 
-              a: ["未来"] 
-            },
-            { 
-              type: 'multiple-choice', 
-              q: "「連帯」という言葉の意味として最も近いものはどれですか。", 
-              options: ["一人で行動すること", "共通の目的のために一つに結びつくこと", "リーダーに絶対服従すること", "競争して勝ち残ること"], 
-              a: "共通の目的のために一つに結びつくこと" 
-            },
-            { 
-              type: 'extraction', 
-              q: "人々が信じていることを、本文の最後の文から11文字で抜き出しなさい。", 
-              a: "やがて、春が、来ることを、信じて" 
-            }
-        ]
-      }
-    ]
-};
@@ -1,385 +0,0 @@
-
-import { Work } from '../types';
-
-export const remonWork: Work = {
-    id: "remon", 
-    author: "梶井基次郎", 
-    title: "檸檬", 
-    description: "得体の知れない憂鬱感を抱える主人公が、一個の檸檬に美を見出し、それを爆弾に見立てることで束の間の慰めを得る物語。", 
-    excerpts: [
-        {
-            id: 1,
-            subtitle: "えたいの知れない不安",
-            text: "※1えたいの知れない不吉な塊が私の心を始終圧えつけていた。※2焦燥とでも云おうか、嫌悪とでも云おうか――酒を飲んだあとに宿る、あの宿酔のようなものが、私の心をずっと掴んでいた。…私は、※3肺尖を冒されている。熱もある。そして何よりも、この心の不安が、私を追い廻すのだ。私は、もはや、どうしても、こんな生活に、耐えることが、できなくなっていた。私は、友人たちの間を、転々と、宿を、変えていた。そして、その度に、私は、新しい部屋の、新しい匂いに、悩まされなければならなかった。それはまるで、私の心を、さらに、かき乱すための、悪意のある、仕掛けのように、思われた。私は、ただ、そこから、逃げ出したかった。",
-            notes: { 
-              "1": "えたいの知れない：正体不明な、何だかよくわからない。",
-              "2": "焦燥（しょうそう）：いらいらして、あせること。",
-              "3": "肺尖（はいせん）を冒されている：肺結核にかかっていること。"
-            },
-            questions: [
-                {
-                  type: 'multiple-choice',
-                  q: "「私」の心を圧えつけている「えたいの知れない不吉な塊」は、何にたとえられていますか。",
-                  options: ["重い石", "暗い雲", "酒の宿酔", "深い霧"],
-                  a: "酒の宿酔"
-                },
-                {
-                  type: 'fill-in-the-blank',
-                  q: "「私」が抱えている身体的な問題は「＿＿を冒されている」ことと、熱があることだ。空欄に当てはまる言葉を答えなさい。",
-                  a: ["肺尖"]
-                },
-                {
-                  type: 'extraction',
-                  q: "身体的な問題以上に「私」を苦しめているものを、本文から5文字で抜き出しなさい。",
-                  a: "心の不安"
-                },
-                {
-                  type: 'multiple-choice',
-                  q: "本文からわかる「私」の状況として、適切でないものはどれですか。",
-                  options: ["心に不安を抱えている", "肺の病気にかかっている", "友人の家を転々としている", "たくさんの友人に囲まれている"],
-                  a: "たくさんの友人に囲まれている"
-                },
-                {
-                  type: 'extraction',
-                  q: "「焦燥」の注釈に書かれている意味を、「〜こと」の形で7文字で抜き出しなさい。",
-                  a: "いらいらして、あせること"
-                }
-            ]
-        },
-        {
-            id: 2,
-            subtitle: "彷徨える心",
-            text: "私は、こういう状態のとき、※1みすぼらしくて美しいものに強くひきつけられるのだった。たとえば、裏町の溝板の上で、だれかが振り落したらしい、けばけばしいリボンの切れ端。あるいは、雨にぬれて、アスファルトの上に、ぺたりと貼りついている、煙草の空箱。…そういうものを見ると、私は、※2しみじみと美しさを感じるのであった。そして、そういうものを、見つけると、私は、まるで、何か、素晴らしい贈り物を、もらったような、気持になるのであった。私は、それを、ポケットに入れたり、机の上に、飾ったりして、楽しんだ。それは、私だけの、秘密の、宝物であった。それは、私の、病んだ、心だけが、理解できる、美しさであった。この感覚は、誰にも、分っては、もらえないだろう。",
-            notes: {
-              "1": "みすぼらしくて：貧しそうで、見た目が悪いこと。",
-              "2": "しみじみと：心の底から深く感じ入る様子。"
-            },
-            questions: [
-                {
-                  type: 'multiple-choice',
-                  q: "心が不安定な時に「私」が強くひきつけられるものは、どのようなものですか。",
-                  options: ["高価で豪華なもの", "新しくてきれいなもの", "みすぼらしくて美しいもの", "大きくて力強いもの"],
-                  a: "みすぼらしくて美しいもの"
-                },
-                {
-                  type: 'extraction',
-                  q: "「私」が美しいと感じるものの例として挙げられているものを、本文から5文字以内で抜き出しなさい。（一つでよい）",
-                  a: ["リボン", "煙草の空箱"]
-                },
-                {
-                  type: 'fill-in-the-blank',
-                  q: "そのようなものを見つけると、「私」は「素晴らしい＿＿を、もらったような、気持」になった。空欄に当てはまる言葉を答えなさい。",
-                  a: ["贈り物"]
-                },
-                {
-                  type: 'extraction',
-                  q: "「私」は、そのようなものを何と呼んでいますか。本文から7文字で抜き出しなさい。",
-                  a: "秘密の、宝物"
-                },
-                {
-                  type: 'multiple-choice',
-                  q: "「私」が感じるこの美しさは、どのような心だけが理解できると書かれていますか。",
-                  options: ["健康な心", "子供のような心", "芸術家の心", "病んだ心"],
-                  a: "病んだ心"
-                }
-            ]
-        },
-        {
-            id: 3,
-            subtitle: "果物屋の檸檬",
-            text: "その果物屋は、私の知っている範囲では、最も美しい店であった。…珍しい果物が、その店の棚に並んでいた。中で、檸檬は、私をひきつけた。その檸檬の※1澄んだ色は、私の心を静かにさせた。私は、その一つを手にとってみた。それは、手のひらに、すっぽりと収まる大きさであった。そして、その重さは、私が、今まで、感じたことのない、不思議な重さであった。私は、それを、何度も、何度も、持ち上げては、下し、下しては、持ち上げた。それは、まるで、私の、すさんだ心を、清めてくれる、聖なる、石のようであった。私は、その、単純な、色の、中に、永遠の、静けさを、感じた。この果実だけが、私の、憂鬱を、理解してくれるようだった。",
-            notes: {
-              "1": "澄んだ（すんだ）：にごりがなく、清らかで美しいこと。"
-            },
-            questions: [
-                 {
-                  type: 'multiple-choice',
-                  q: "数ある果物の中で、「私」の心を特にひきつけたものは何でしたか。",
-                  options: ["りんご", "みかん", "檸檬", "ぶどう"],
-                  a: "檸檬"
-                },
-                {
-                  type: 'fill-in-the-blank',
-                  q: "その檸檬の「＿＿色は、私の心を静かにさせた」。空欄に当てはまる言葉を答えなさい。",
-                  a: ["澄んだ"]
-                },
-                {
-                  type: 'extraction',
-                  q: "「私」は、檸檬の重さをどのように感じましたか。本文から「〜重さ」の形で6文字で抜き出しなさい。",
-                  a: "不思議な重さ"
-                },
-                {
-                  type: 'multiple-choice',
-                  q: "「私」は檸檬を何にたとえましたか。",
-                  options: ["黄金の塊", "太陽のかけら", "聖なる石", "冷たい炎"],
-                  a: "聖なる石"
-                },
-                {
-                  type: 'extraction',
-                  q: "「澄んだ」の注釈に書かれている意味を、「〜美しいこと」の形で9文字以内で抜き出しなさい。",
-                  a: "清らかで美しいこと"
-                }
-            ]
-        },
-        {
-            id: 4,
-            subtitle: "幸福な瞬間",
-            text: "私は、その檸檬を一つ買うことにした。…そして、私は、幸福であった。私の心に※1わだかまっていた不吉な塊が、いくらか解けていくのを感じた。私は、町の上で、めずらしく、幸福であった。ああ、これが、これこそが、私が求めていたものだったのだ。私は、その檸檬を、胸のポケットに、そっと、しまった。そして、私は、まるで、新しい人間になったような、気持で、歩き始めた。私の足どりは、軽かった。世界のすべてが、この檸檬のように、単純で、美しく、見えた。私は、その時、死の、影を、忘れることが、できた。この幸福は、永遠に続くかのように、思われた。",
-            notes: {
-              "1": "わだかまっていた：心の中に不満や疑いなどがたまって、すっきりしない状態であった。"
-            },
-            questions: [
-                {
-                  type: 'multiple-choice',
-                  q: "檸檬を手に入れた「私」は、どのような気持ちになりましたか。",
-                  options: ["不安になった", "悲しくなった", "幸福であった", "怒りを感じた"],
-                  a: "幸福であった"
-                },
-                {
-                  type: 'fill-in-the-blank',
-                  q: "檸檬を手に入れたことで、心に「＿＿」不吉な塊が解けていくのを感じた。空欄に当てはまる言葉を答えなさい。",
-                  a: ["わだかまっていた"]
-                },
-                {
-                  type: 'extraction',
-                  q: "檸檬を持つ「私」から見て、世界のすべてはどのように見えましたか。本文から「〜見えた」の形で10文字で抜き出しなさい。",
-                  a: "単純で、美しく、見えた"
-                },
-                {
-                  type: 'multiple-choice',
-                  q: "この幸福な瞬間、「私」は何を忘れることができましたか。",
-                  options: ["病気のこと", "友人のこと", "死の影", "空腹"],
-                  a: "死の影"
-                },
-                {
-                  type: 'extraction',
-                  q: "「私」の足どりはどうなりましたか。本文から4文字で抜き出しなさい。",
-                  a: "軽かった"
-                }
-            ]
-        },
-        {
-            id: 5,
-            subtitle: "丸善という存在",
-            text: "私の好きな※1丸善の本屋は、京都では、麩屋町通にあった。…私は、そこへ行くのが好きであった。赤い表紙の本、黄いろい表紙の本、青い表紙の本、それらが、ぎっしりと棚に詰まっているのを見るのが、何とも言えず好きだった。しかし、近頃では、私は、もう、そんな本を見る気力もなくなっていた。私は、ただ、その店の前を、通り過ぎるだけであった。しかし、今日は、違った。私は、檸檬を、持っていた。私は、その檸檬の力で、丸善の、中へ、入って行けるような、気がした。この、たった一個の果実が、私に、不思議な、勇気を、与えてくれたのだ。私は、再び、あの、美しい、知識の、森へ、入って行くことが、できるのだ。",
-            notes: { "1": "丸善（まるぜん）：当時から続く、有名な大型書店。" },
-            questions: [
-                {
-                  type: 'extraction',
-                  q: "「私」の好きな本屋の名前を、本文から2文字で抜き出しなさい。",
-                  a: "丸善"
-                },
-                {
-                  type: 'multiple-choice',
-                  q: "近頃の「私」が丸善に行けなかった理由は何ですか。",
-                  options: ["店が閉まっていたから", "本を買うお金がなかったから", "本を見る気力がなくなっていたから", "友人との約束があったから"],
-                  a: "本を見る気力がなくなっていたから"
-                },
-                {
-                  type: 'fill-in-the-blank',
-                  q: "「私」がこの日、丸善に入れたのは「＿＿を、持っていた」からだ。空欄に当てはまる言葉を答えなさい。",
-                  a: ["檸檬"]
-                },
-                {
-                  type: 'extraction',
-                  q: "檸檬が「私」に与えてくれたものを、本文から5文字で抜き出しなさい。",
-                  a: "不思議な、勇気"
-                },
-                {
-                  type: 'multiple-choice',
-                  q: "「私」は丸善を何にたとえていますか。",
-                  options: ["静かな海", "にぎやかな市場", "知識の森", "古い城"],
-                  a: "知識の森"
-                }
-            ]
-        },
-        {
-            id: 6,
-            subtitle: "憂鬱の逆襲",
-            text: "私は、檸檬を手に持ったまま、その丸善の中へはいって行った。しかし、どうしたことか、私の心は、また、もとの※1陰鬱な状態に※2舞い戻ってしまっていた。檸檬の魔力は、もう、すっかり消えていた。私は、ただ、むなしく、書棚の間を歩き廻った。私は、画集の棚の前に、立った。しかし、私は、その、高価な、美しい画集を、見る気には、なれなかった。私は、ただ、その、重い、重い、画集の、背表紙を、眺めているだけであった。それらの、完璧な美しさが、かえって、私の、不完全さを、際立たせるように、思われたのだ。私は、自分の、貧しさと、病とを、改めて、思い知らされた。憂鬱は、さらに、深くなった。",
-            notes: {
-              "1": "陰鬱（いんうつ）：気分が晴れず、暗く沈んでいること。",
-              "2": "舞い戻って（まいもどって）：もとの場所や状態へ帰ってくること。"
-            },
-            questions: [
-                {
-                  type: 'multiple-choice',
-                  q: "丸善に入った後、「私」の心はどうなりましたか。",
-                  options: ["さらに幸福になった", "もとの陰鬱な状態に戻った", "何も変わらなかった", "怒りを感じた"],
-                  a: "もとの陰鬱な状態に戻った"
-                },
-                {
-                  type: 'extraction',
-                  q: "「私」の心が陰鬱になった原因となった、書棚にあった本の種類を本文から2文字で抜き出しなさい。",
-                  a: "画集"
-                },
-                {
-                  type: 'fill-in-the-blank',
-                  q: "画集の完璧な美しさが、かえって「私の、＿＿さを、際立たせる」ように思われた。空欄に当てはまる言葉を答えなさい。",
-                  a: ["不完全"]
-                },
-                {
-                  type: 'multiple-choice',
-                  q: "画集を見て「私」が改めて思い知らされたことは何ですか。",
-                  options: ["自分の才能", "自分の貧しさと病", "友人の優しさ", "檸檬の美しさ"],
-                  a: "自分の貧しさと病"
-                },
-                {
-                  type: "extraction",
-                  q: "もとの場所や状態へ帰ってくることを意味する言葉を、注釈から「〜て」の形で5文字で抜き出しなさい。",
-                  a: "舞い戻って"
-                }
-            ]
-        },
-        {
-            id: 7,
-            subtitle: "色彩の対比",
-            text: "ふと、私は、ある考えにとらわれた。それは、この檸檬の澄みきった黄色と、書物の色の洪水とを、対比させてみることだった。私は、一冊、また一冊と、書物を棚から抜き出しては、積み重ねていった。…そして、その上に、そっと、檸檬を置いた。その檸檬の黄色は、あたりの、ごちゃごちゃした、色を、吸い取って、しまったかのようであった。それは、まるで、一枚の、美しい、静かな、絵のようであった。私は、その、※1創造主になったような、気分であった。この、憂鬱な世界に、一瞬の、完璧な、※2調和を、もたらしたのだ。私は、しばらく、その、美しさに、見とれていた。私の、芸術が、完成したのだ。",
-            notes: {
-              "1": "創造主（そうぞうしゅ）：世界や万物を創造したとされる神のこと。",
-              "2": "調和（ちょうわ）：複数のものが、うまくつりあって、まとまっていること。"
-            },
-            questions: [
-                {
-                  type: 'fill-in-the-blank',
-                  q: "「私」は、書物を積み重ねた上にそっと「＿＿」を置いた。空欄に当てはまる言葉を答えなさい。",
-                  a: ["檸檬"]
-                },
-                {
-                  type: 'multiple-choice',
-                  q: "この行為によって生まれた光景を、「私」は何にたとえていますか。",
-                  options: ["爆発の跡", "美しい絵", "山の景色", "不思議な生き物"],
-                  a: "美しい絵"
-                },
-                {
-                  type: 'extraction',
-                  q: "この光景を創り出した「私」は、どのような気分になりましたか。本文から「〜気分」の形で8文字で抜き出しなさい。",
-                  a: "創造主になったような、気分"
-                },
-                {
-                  type: 'extraction',
-                  q: "この行為が憂鬱な世界にもたらしたものを、本文から5文字以内で抜き出しなさい。",
-                  a: "完璧な、調和"
-                },
-                {
-                  type: 'multiple-choice',
-                  q: "「調和」という言葉の意味として最も近いものはどれですか。",
-                  options: ["激しい対立", "完全な無秩序", "うまくつりあってまとまっていること", "単一の色で統一されること"],
-                  a: "うまくつりあってまとまっていること"
-                }
-            ]
-        },
-        {
-            id: 8,
-            subtitle: "見立ての遊戯",
-            text: "見ろ、この美しい風景を！ と、私は、心の中で叫んだ。…そして、私は、もう一つの、おかしな考えにとらわれた。それは、この檸檬を、ここへ、このまま、置いていくことだった。そうだ。私は、この檸檬を、一個の、きらきらした、冷たい爆弾だと、想像したのだ。そして、私は、その爆弾で、この、憂鬱な、丸善を、粉々に、吹き飛ばして、しまおうと、思ったのだ。この、私の心を、重くする、すべての、知識や、芸術や、そんな、いかめしいものを、すべて、破壊してしまいたかったのだ。この、※1見立ての遊びは、私を、興奮させた。私は、悪戯な、子供に、なったようだった。",
-            notes: {
-              "1": "見立て（みたて）：あるものを、別のものになぞらえて表現する、日本の伝統的な美意識や遊びの一つ。"
-            },
-            questions: [
-                {
-                  type: 'multiple-choice',
-                  q: "自分が作り出した光景を見た後、「私」が次に思いついた「おかしな考え」とは何ですか。",
-                  options: ["檸檬を食べること", "檸檬を本と交換すること", "檸檬を置いていくこと", "檸檬を売ること"],
-                  a: "檸檬を置いていくこと"
-                },
-                {
-                  type: 'extraction',
-                  q: "「私」は、檸檬を何だと想像しましたか。本文から「〜爆弾」の形で9文字で抜き出しなさい。",
-                  a: "きらきらした、冷たい爆弾"
-                },
-                {
-                  type: 'fill-in-the-blank',
-                  q: "「私」は、その想像上の爆弾で、憂鬱な「＿＿」を吹き飛ばそうと思った。空欄に当てはまる言葉を答えなさい。",
-                  a: ["丸善"]
-                },
-                {
-                  type: 'multiple-choice',
-                  q: "この「見立ての遊び」は、「私」をどのような気持ちにさせましたか。",
-                  options: ["悲しい気持ち", "落ち着いた気持ち", "興奮させた", "眠い気持ち"],
-                  a: "興奮させた"
-                },
-                {
-                  type: 'extraction',
-                  q: "「見立て」とはどのようなことですか。注釈から「〜こと」の形で13文字以内で抜き出しなさい。",
-                  a: "別のものになぞらえて表現すること"
-                }
-            ]
-        },
-        {
-            id: 9,
-            subtitle: "想像の爆発",
-            text: "私は、その※1奇怪な幻想に、しばらく、心を奪われていた。そして、にやりと、笑った。…「よし、行こう。」私は、すたすたと、そこから歩き出した。私の心は、うきうきしていた。あの丸善の棚に、黄金色に輝く爆弾が仕掛けられて、十分後には、大爆発を起すのだ。そう思うと、私は、もう、たまらなく可笑しかった。私は、往来で、すれちがう人々の、顔を、見ながら、にやにや、笑っていた。私は、きっと、変な、男に、見えたに、ちがいない。だが、そんなことは、どうでもよかった。私は、私の、勝利に、酔っていた。私は、初めて、この、憂鬱な、世界に、勝ったのだ。",
-            notes: {
-              "1": "奇怪な幻想（きかいなげんそう）：不思議で、常識では考えられないような、まぼろし。"
-            },
-            questions: [
-                {
-                  type: 'multiple-choice',
-                  q: "檸檬を爆弾に見立てた「私」は、どのような表情をしましたか。",
-                  options: ["泣きそうな顔をした", "にやりと笑った", "無表情だった", "驚いた顔をした"],
-                  a: "にやりと笑った"
-                },
-                {
-                  type: 'fill-in-the-blank',
-                  q: "その場を立ち去る時、「私の心は、＿＿していた」。空欄に当てはまる言葉を答えなさい。",
-                  a: ["うきうき"]
-                },
-                {
-                  type: 'extraction',
-                  q: "「私」が「たまらなく可笑しかった」のはなぜですか。その想像の内容を「〜のだ」の形で11文字以内で抜き出しなさい。",
-                  a: "大爆発を起すのだ"
-                },
-                {
-                  type: 'multiple-choice',
-                  q: "この想像上の勝利によって、「私」は初めて何に勝ったと感じましたか。",
-                  options: ["自分の病気", "友人たち", "憂鬱な世界", "丸善の店員"],
-                  a: "憂鬱な世界"
-                },
-                {
-                  type: 'extraction',
-                  q: "「奇怪な幻想」の「奇怪」とはどのような意味ですか。注釈から「〜ような」の形で11文字以内で抜き出しなさい。",
-                  a: "常識では考えられないような"
-                }
-            ]
-        },
-        {
-            id: 10,
-            subtitle: "束の間の勝利",
-            text: "私は、もう、丸善のことなど、すっかり忘れて、町の往来を、得々と歩いていた。私の背後では、いま、丸善が、粉微塵になっているかも知れない。…ああ、何という、愉快なことだろう。私は、もう、しばらくは、この気持のままで、いられるだろう。私は、空を、見上げた。空は、青く、澄みきっていた。私は、深呼吸を、した。そして、私は、また、歩き始めた。私の、行く先は、どこだか、わからない。しかし、私は、歩き続けなければ、ならない。この、※1束の間の、勝利の、※2余韻に、ひたりながら。やがて、また、あの、不吉な塊が、私を、捕えるとしても、今は、これで、よかった。",
-            notes: {
-              "1": "束の間（つかのま）：ほんの短い時間。",
-              "2": "余韻（よいん）：物事が終わった後にも、なお残る風情や感動。"
-            },
-            questions: [
-                {
-                  type: 'multiple-choice',
-                  q: "丸善を後にした「私」は、どのような様子で町を歩いていましたか。",
-                  options: ["悲しそうに", "おびえながら", "得々と", "急ぎ足で"],
-                  a: "得々と"
-                },
-                {
-                  type: 'extraction',
-                  q: "「私」が感じた勝利を、本文から「〜の勝利」の形で5文字で抜き出しなさい。",
-                  a: "束の間の、勝利"
-                },
-                {
-                  type: 'fill-in-the-blank',
-                  q: "「私」は、この勝利の「＿＿に、ひたりながら」歩き続けた。空欄に当てはまる言葉を答えなさい。",
-                  a: ["余韻"]
-                },
-                {
-                  type: 'multiple-choice',
-                  q: "この物語の結びから、この後「私」の気持ちはどうなると考えられますか。",
-                  options: ["完全に憂鬱から解放される", "またすぐに不吉な塊に捕えられるだろう", "さらに幸福になるだろう", "病気が治るだろう"],
-                  a: "またすぐに不吉な塊に捕えられるだろう"
-                },
-                {
-                  type: 'extraction',
-                  q: "「束の間」とはどのような意味ですか。注釈から6文字で抜き出しなさい。",
-                  a: "ほんの短い時間"
-                }
-            ]
-        }
-    ] 
-};
\ No newline at end of file
@@ -1,397 +0,0 @@
-
-import { Work } from '../types';
-
-export const sangetsukiWork: Work = {
-    id: "sangetsuki",
-    author: "中島敦",
-    title: "山月記",
-    description: "自尊心と羞恥心から虎になってしまった男の悲劇を通して、人間の内面に潜む獣性と、才能への執着がもたらす孤独を描く。",
-    excerpts: [
-        {
-            id: 1,
-            subtitle: "隴西の李徴",
-            text: "※1隴西の李徴は、※2博学才穎、天宝の末年、若くして名を※3虎榜に連ね、ついで江南尉に補せられたが、性、※4狷介、自ら※5恃むところすこぶる厚く、※6賤吏に甘んずるを※7潔しとしなかった。いくばくもなく官を退いた後は、故山、虢略に帰臥し、人と交を絶って、ひたすら詩作に耽った。名を成すのに、衆に就いて、これを求むる必要はない、と考えたからだ。後、再び官に就いたが、これも長くは続かなかった。下吏となって長く膝を俗悪な大官の前に屈するよりは、詩家としての名を死後百年に遺そうとしたのである。しかし、文名は容易に揚らず、生活は日を逐うて苦しくなる。李徴は、ようやく焦躁に駆られて来た。彼は、自分の才能を、信じきれなくなり始めていた。そのことが、彼の心を、深く、傷つけた。",
-            notes: { 
-              "1": "隴西（ろうせい）：昔の中国の地名。",
-              "2": "博学才穎（はくがくさいえい）：知識が広く、才能が非常に優れていること。",
-              "3": "虎榜（こほう）：科挙（昔の中国の官吏登用試験）の合格者発表の掲示板。",
-              "4": "狷介（けんかい）：自分の意志を固く守って、他と協調しないこと。頑固。",
-              "5": "恃む（たのむ）：頼りにする、自信を持つ。",
-              "6": "賤吏（せんり）：身分の低い役人。",
-              "7": "潔しとしない（いさぎよしとしない）：自分の誇りが許さない、受け入れられない。"
-            },
-            questions: [
-                { 
-                  type: 'multiple-choice',
-                  q: "李徴の性格を表す言葉として、本文で使われているものはどれですか。",
-                  options: ["温厚篤実", "博学才穎", "狷介", "優柔不断"],
-                  a: "狷介"
-                },
-                {
-                  type: 'fill-in-the-blank',
-                  q: "李徴は「＿＿に甘んずるを潔しとしなかった」ために、役人を辞めた。空欄に当てはまる言葉を答えなさい。",
-                  a: ["賤吏"]
-                },
-                {
-                  type: 'extraction',
-                  q: "役人を辞めた後、李徴がひたすら打ち込んだものを、本文から2文字で抜き出しなさい。",
-                  a: "詩作"
-                },
-                {
-                  type: 'multiple-choice',
-                  q: "詩作に専念した結果、李徴の生活はどうなりましたか。",
-                  options: ["すぐに有名になり裕福になった", "生活は日に日に苦しくなった", "多くの友人に囲まれるようになった", "再び高位の役人になった"],
-                  a: "生活は日に日に苦しくなった"
-                },
-                {
-                  type: 'extraction',
-                  q: "「潔しとしない」の注釈に書かれている意味を「〜ない」の形で10文字以内で抜き出しなさい。",
-                  a: "誇りが許さない"
-                }
-            ]
-        },
-        {
-            id: 2,
-            subtitle: "東へ",
-            text: "この頃からその容貌も※1峭刻となり、肉落ち※2骨秀で、眼光のみいたずらに※3炯々として、かつての※4豊頬の美少年のおもかげは、どこに求めようもなかった。数年の後、貧窮に堪えず、妻子の衣食のためについに※5節を屈して、再び東へ赴き、一地方官吏の職を奉ずることになった。一方、これは、己の詩業に半ば絶望したためでもある。かつての同輩は、既に遥か高位に進み、彼が昔、鈍物として※6歯牙にもかけなかったその連中の下命を拝さねばならぬことが、往年の※7儁才李徴の自尊心をいかに傷けたかは、想像に難くない。彼は、怏々として楽しまず、狂悖の性は愈々抑え難くなった。彼は、酒を飲み、よく、狂ったように、叫んだ。その声は、獣のようであったという。",
-            notes: { 
-              "1": "峭刻（しょうこく）：険しく厳しい顔つき。",
-              "2": "骨秀で（ほねひいで）：肉が落ちて骨が浮き出て見えること。",
-              "3": "炯々（けいけい）：目が鋭く光るさま。",
-              "4": "豊頬（ほうきょう）：ふっくらとした頬。",
-              "5": "節を屈して（せつをくっして）：自分の信念を曲げて従うこと。",
-              "6": "歯牙にもかけなかった（しがにもかけなかった）：問題にしない、相手にしない。",
-              "7": "儁才（しゅんさい）：優れた才能の持ち主。"
-            },
-            questions: [
-                { 
-                  type: 'extraction',
-                  q: "生活が苦しくなった李徴の容貌の変化を表す言葉を、本文から2文字で抜き出しなさい。",
-                  a: "峭刻"
-                },
-                {
-                  type: 'multiple-choice',
-                  q: "李徴が再び役人になることを決意した理由として、本文に挙げられていないものはどれですか。",
-                  options: ["貧しさに耐えられなかったため", "妻子の生活のため", "詩作に絶望したため", "友人に勧められたため"],
-                  a: "友人に勧められたため"
-                },
-                {
-                  type: 'fill-in-the-blank',
-                  q: "李徴の自尊心を傷つけたのは、昔「＿＿として歯牙にもかけなかった」同輩の下で働かなければならなくなったことだ。空欄に当てはまる言葉を答えなさい。",
-                  a: ["鈍物"]
-                },
-                {
-                  type: 'extraction',
-                  q: "自分の信念を曲げて従うことを意味する言葉を、本文から4文字で抜き出しなさい。",
-                  a: "節を屈して"
-                },
-                {
-                  type: 'multiple-choice',
-                  q: "役人に戻った李徴の様子として、本文に書かれていることはどれですか。",
-                  options: ["毎日楽しく過ごした", "同輩たちと仲良くなった", "怏々として楽しまなかった", "詩作をきっぱりとやめた"],
-                  a: "怏々として楽しまなかった"
-                }
-            ]
-        },
-        { 
-            id: 3, 
-            subtitle: "虎への変身", 
-            text: "彼は※1怏々として楽しまず、※2狂悖の性は愈々抑え難くなった。一年ばかり過ぎた後、公用で旅に出、汝水のほとりに宿った時、とうとう発狂した。ある夜半、急に顔色を変えて寝床から起き上がると、何か訳の分らぬことを叫びつつ、そのまま闇の中へ駆け出した。彼は二度と戻って来なかった。付近の山野を捜索しても、何の手掛りもない。その後李徴がどうなったかを知る者は、誰もなかった。翌年、監察御史、陳郡の※3袁傪という人が、勅命を奉じて嶺南に使いし、その途に、商於のあたりで、人喰い虎に襲われそうになった。虎は、あわや、袁傪に躍りかかるかと見えたが、たちまち、身を翻して、元の叢に隠れた。このことが、後の奇妙な再会へとつながるのである。",
-            notes: {
-              "1": "怏々として（おうおうとして）：不満に思うさま。",
-              "2": "狂悖（きょうはい）：常軌を逸して、道にもとること。",
-              "3": "袁傪（えんさん）：李徴の旧友。役人。"
-            }, 
-            questions: [
-                { 
-                  type: 'multiple-choice',
-                  q: "李徴が発狂したのはいつですか。",
-                  options: ["役人になってすぐ", "公用の旅に出て一年ほど後", "故郷に帰った時", "袁傪と再会した時"],
-                  a: "公用の旅に出て一年ほど後"
-                },
-                {
-                  type: 'extraction',
-                  q: "発狂した李徴が駆け出した場所を、本文から3文字で抜き出しなさい。",
-                  a: "闇の中"
-                },
-                {
-                  type: 'fill-in-the-blank',
-                  q: "李徴の旧友である監察御史の名前は「＿＿」という。空欄に当てはまる言葉を答えなさい。",
-                  a: ["袁傪"]
-                },
-                {
-                  type: 'extraction',
-                  q: "袁傪が襲われそうになった生き物を、本文から5文字で抜き出しなさい。",
-                  a: "人喰い虎"
-                },
-                {
-                  type: 'multiple-choice',
-                  q: "袁傪を襲おうとした虎は、最終的にどうしましたか。",
-                  options: ["袁傪に襲いかかった", "袁傪を食べてしまった", "身を翻して叢に隠れた", "袁傪に話しかけた"],
-                  a: "身を翻して叢に隠れた"
-                }
-            ]
-        },
-        { 
-            id: 4, 
-            subtitle: "旧友との再会", 
-            text: "叢の中から、人間の声がした。「あぶないところだった。」と。その声は、我が友、李徴子の声ではないか。…ややあって、低い声が答えた。「如何にも、自分は隴西の李徴である。」と。袁傪は恐怖を忘れ、馬から下りて叢に近づき、懐かしげに※1久闊を叙した。そして、何故、叢から出て来ないのか、と問うた。李徴の声が答えて言う。「自分は今、獣の身となっている。どうして、おめおめと故人の前に姿を現わせようか。また、我が醜悪な今の外形を、君に示して、君の記憶にあるかつての李徴のイメージを破壊するに※2忍びないからだ。ああ、しかし、この数年、だれとも話さなかった。この胸のつかえを、少しでも、晴らしたい。聞いてくれるか。」",
-            notes: { 
-              "1": "久闊を叙した（きゅうかつをじょした）：久しぶりに会ったことの挨拶をした。",
-              "2": "忍びない（しのびない）：相手を気の毒に思って、つらくてできない。"
-            }, 
-            questions: [
-                {
-                  type: 'extraction',
-                  q: "叢の中から聞こえてきた声の主は誰でしたか。本文から5文字で抜き出しなさい。",
-                  a: "隴西の李徴"
-                },
-                {
-                  type: 'multiple-choice',
-                  q: "李徴が袁傪の前に姿を現さない理由として、適切でないものはどれですか。",
-                  options: ["自分が獣の姿になっているから", "袁傪の記憶にある自分のイメージを壊したくないから", "袁傪のことが嫌いだから", "自分の醜い姿を見せるのが恥ずかしいから"],
-                  a: "袁傪のことが嫌いだから"
-                },
-                {
-                  type: 'fill-in-the-blank',
-                  q: "李徴は、自分の今の姿を「＿＿な今の外形」と表現している。空欄に当てはまる言葉を答えなさい。",
-                  a: ["醜悪"]
-                },
-                {
-                  type: 'extraction',
-                  q: "李徴が袁傪に頼んだことは何ですか。本文から「〜こと」の形で8文字以内で抜き出しなさい。",
-                  a: "話を聞いてくれるか"
-                },
-                {
-                  type: 'multiple-choice',
-                  q: "「忍びない」という言葉の意味として、注釈から最も近いものを選びなさい。",
-                  options: ["我慢できない", "信じられない", "つらくてできない", "忘れることができない"],
-                  a: "つらくてできない"
-                }
-            ]
-        },
-        { 
-            id: 5, 
-            subtitle: "臆病な自尊心", 
-            text: "なぜ、こんな運命になったか判らぬ。…しかし、考えてみれば、思い当ることが全然ないでもない。人間であった時、己は努めて人との交りを避けた。人々は己を※1倨傲だ、尊大だといった。実は、それが殆ど羞恥心に近いものであることを、人々は知らなかった。もちろん、己の才能を半ば信じていたが故の、自尊心もあった。しかし、その自尊心は、臆病な自尊心とでもいうべきもので、己は詩によって名を成そうと思いながら、進んで師に就いたり、求めて詩友と交って※2切磋琢磨に努めたりすることをしなかった。才能の不足を暴露するかもしれない、という卑劣な危惧と、刻苦を厭う怠惰とが、己のすべてだったのだ。ああ、何と、愚かしいことか。",
-            notes: {
-              "1": "倨傲（きょごう）：おごり高ぶって、人を見下すこと。",
-              "2": "切磋琢磨（せっさたくま）：仲間同士で励まし合い、学問や技術を向上させること。"
-            }, 
-            questions: [
-                {
-                  type: 'multiple-choice',
-                  q: "李徴が人との交わりを避けていた本当の理由は何に近いものでしたか。",
-                  options: ["傲慢さ", "羞恥心", "怠惰", "人間不信"],
-                  a: "羞恥心"
-                },
-                {
-                  type: 'extraction',
-                  q: "李徴が持っていた自尊心を、彼はどのようなものだと表現していますか。本文から7文字で抜き出しなさい。",
-                  a: "臆病な自尊心"
-                },
-                {
-                  type: 'fill-in-the-blank',
-                  q: "李徴が詩作の腕を磨くためにしなかったことは、師に就くことと、詩友と交って「＿＿」に努めることだった。空欄に当てはまる言葉を答えなさい。",
-                  a: ["切磋琢磨"]
-                },
-                {
-                  type: 'extraction',
-                  q: "李徴が才能の向上を怠ったもう一つの理由を、本文から「〜怠惰」の形で6文字で抜き出しなさい。",
-                  a: "刻苦を厭う怠惰"
-                },
-                {
-                  type: 'multiple-choice',
-                  q: "李徴が自分の才能が不足していることがばれるのを恐れる気持ちを、本文では何と表現していますか。",
-                  options: ["尊大な羞恥心", "臆病な自尊心", "卑劣な危惧", "愚かしい過ち"],
-                  a: "卑劣な危惧"
-                }
-            ]
-        },
-        { 
-            id: 6, 
-            subtitle: "尊大な羞恥心", 
-            text: "己は俗物の間に※1伍することも潔しとしなかった。これも、我が臆病な自尊心と、尊大な羞恥心との所為である。己が珠でないことを、懼れるが故に、敢て刻苦して磨こうともせず、又、己が珠であることを、半ば信ずるが故に、碌々として※2瓦に伍することも出来なかった。己は次第に世と離れ、人と遠ざかり、憤悶と※3慙恚とによって、益々己の内なる臆病な自尊心を飼いふとらせる結果になった。人間は誰でも猛獣使であり、その猛獣にあたるのが、各人の性情だという。己の場合、この尊大な羞恥心が猛獣だった。虎だったのだ。これが己を損い、妻子を苦しめ、友人を傷つけ、果ては、己の外形をかくの如く、内心にふさわしいものに変えてしまったのだ。",
-            notes: {
-              "1": "伍する（ごする）：仲間に入ること。",
-              "2": "瓦に伍する（かわらにごする）：才能のない凡人たちと一緒の立場にいること。「珠」の対義語。",
-              "3": "慙恚（ざんい）：恥じて、いきどおること。"
-            }, 
-            questions: [
-                 {
-                  type: 'fill-in-the-blank',
-                  q: "李徴は、自分が才能のない凡人（瓦）の仲間に入ることも、才能（珠）を磨く努力をすることもしなかった。これは彼の「臆病な自尊心」と「＿＿な羞恥心」のせいだった。空欄に当てはまる言葉を答えなさい。",
-                  a: ["尊大"]
-                },
-                {
-                  type: 'multiple-choice',
-                  q: "李徴が自分を磨く努力をしなかったのはなぜですか。",
-                  options: ["努力する方法を知らなかったから", "自分が才能がない（珠でない）ことを恐れていたから", "すでに完璧な才能があると思っていたから", "師事する人がいなかったから"],
-                  a: "自分が才能がない（珠でない）ことを恐れていたから"
-                },
-                {
-                  type: 'extraction',
-                  q: "李徴は、自分の心の中の何を「猛獣」であり「虎」だったとたとえていますか。本文から7文字で抜き出しなさい。",
-                  a: "尊大な羞恥心"
-                },
-                {
-                  type: 'multiple-choice',
-                  q: "「人間は誰でも猛獣使であり、その猛獣にあたるのが、各人の性情だ」というたとえが意味することは何ですか。",
-                  options: ["人間は皆、動物を飼うべきだ", "人間は誰でも、自分の感情や性格をコントロールしながら生きている", "人間の本性は猛獣のように獰猛だ", "人間は猛獣には決して勝てない"],
-                  a: "人間は誰でも、自分の感情や性格をコントロールしながら生きている"
-                },
-                {
-                  type: 'extraction',
-                  q: "李徴の猛獣（尊大な羞恥心）が、最終的に彼の何を内心にふさわしいものに変えてしまいましたか。本文から3文字で抜き出しなさい。",
-                  a: "外形"
-                }
-            ]
-        },
-        { 
-            id: 7, 
-            subtitle: "人間性の喪失", 
-            text: "人間としての心が、すっかり消えて了う前にお願いしたいのだ。…一日の中に必ず数時間は、人間の心が還って来る。その時に、己は、己の過去のあさましい運命を、ありありと想い出す。…この人間としての心で、虎としての己の※1残虐な行いのあとを見、己の運命をふりかえる時が、最も情なく、恐しく、憤ろしい。だが、その、人間である時間も、日毎に短くなっていく。今までは、どうにかして、虎としての己を制することが出来たが、それも、この先、どうなるか。全く、分らない。いずれ、己は、己の過去を忘れ、一匹の虎として、狂い廻り、今日、君と会った事も、忘れてしまうだろう。ちょうど、古い宮殿が、次第に土砂に※2埋没するように、己の人間としての心も、埋もれていくのだ。",
-            notes: {
-              "1": "残虐（ざんぎゃく）：むごたらしいこと。",
-              "2": "埋没（まいぼつ）：うずもれて、見えなくなること。"
-            }, 
-            questions: [
-                {
-                  type: 'multiple-choice',
-                  q: "李徴にとって、最も辛いと感じる瞬間はいつですか。",
-                  options: ["虎として獲物を狩る時", "夜、一人で眠る時", "人間の心に戻り、虎としての行いや自分の運命を振り返る時", "袁傪と話している時"],
-                  a: "人間の心に戻り、虎としての行いや自分の運命を振り返る時"
-                },
-                {
-                  type: 'extraction',
-                  q: "李徴の中で、日に日に短くなっていくものは何ですか。本文から8文字以内で抜き出しなさい。",
-                  a: "人間である時間"
-                },
-                {
-                  type: 'fill-in-the-blank',
-                  q: "李徴は、自分の人間としての心が「古い宮殿が、次第に土砂に＿＿するように」埋もれていくと表現した。空欄に当てはまる言葉を答えなさい。",
-                  a: ["埋没"]
-                },
-                {
-                  type: 'multiple-choice',
-                  q: "この文章から、李徴が最も恐れていることは何だとわかりますか。",
-                  options: ["袁傪に忘れられること", "人間に殺されること", "完全に人間としての心を失うこと", "空腹に耐えること"],
-                  a: "完全に人間としての心を失うこと"
-                },
-                {
-                  type: 'extraction',
-                  q: "李徴は、虎としてどのような行いをしたと述べていますか。本文から3文字で抜き出しなさい。",
-                  a: "残虐"
-                }
-            ]
-        },
-        { 
-            id: 8, 
-            subtitle: "詩作の行方", 
-            text: "そうだ、ついでながら、我が作った詩を書き取って貰えないか。…この人間でなくなってから、もちろん、他のものとの交りは絶たれた。山川に照応し、草木に吟ずることも出来ない。己の胸の焼けるようなこの苦しみを、だれかに訴えたいと思っても、その術を知らない。ただ、※1哮るばかりだ。己が人間だったなら、どんなにか救われたことであろう。この胸の中の悲しみや怒りを、だれかに訴えることが出来たなら。己は、今、虎だ。己の胸の苦しみを、どうすることも出来ない。だから、この詩が、せめて、己のかつての人間としての心の証なのだ。どうか、これを、伝えてくれ。我が才能の、証として。",
-            notes: { "1": "哮る（たける）：獣が吠えること。" }, 
-            questions: [
-                {
-                  type: 'extraction',
-                  q: "李徴が袁傪に頼んだことは何ですか。本文から「〜こと」の形で10文字以内で抜き出しなさい。",
-                  a: "詩を書き取って貰えないか"
-                },
-                {
-                  type: 'fill-in-the-blank',
-                  q: "虎になった李徴は、胸の苦しみを訴える術を知らず、「ただ、＿＿ばかりだ」と述べている。空欄に当てはまる言葉を答えなさい。",
-                  a: ["哮る"]
-                },
-                {
-                  type: 'multiple-choice',
-                  q: "李徴にとって、自分の作った詩はどのような意味を持っていますか。",
-                  options: ["家族への遺産", "金儲けの手段", "かつて人間だったことの証", "袁傪への贈り物"],
-                  a: "かつて人間だったことの証"
-                },
-                {
-                  type: 'extraction',
-                  q: "虎になったことでできなくなったことの一つを、本文から7文字以内で抜き出しなさい。",
-                  a: ["草木に吟ずる", "他のものとの交り"]
-                },
-                {
-                  type: 'multiple-choice',
-                  q: "李徴が詩を伝えてほしいと願うのは、それが何よりの何の証だと考えているからですか。",
-                  options: ["友情の証", "努力の証", "才能の証", "人生の証"],
-                  a: "才能の証"
-                }
-            ]
-        },
-        { 
-            id: 9, 
-            subtitle: "最後の願い", 
-            text: "もう一つ、頼みがある。…我が妻子のことだ。…彼等が今、どうなっているか、それを知ることが、己にとって、最も辛い。もし、お前の行程に差し支えがないなら、彼等を訪ねて、己の死を告げて貰えないだろうか。…決して、今日のことだけは明かして呉れるな。厚かましいお願いだが、彼等が※1路傍に餓えることのないように、計らって戴けるならば、これに過ぎる※2恩愛はない。ああ、そうだ。己の詩を、妻子の前で、読んでやっては、くれまいか。己が、何を、目指し、何に、苦しんだかを、少しでも、知ってほしいのだ。それが、私の、最後の、わがままだ。",
-            notes: {
-              "1": "路傍に餓える（ろぼうにうえる）：道端で飢え死にするほど貧窮すること。",
-              "2": "恩愛（おんあい）：深く感謝し、愛しく思う気持ち。"
-            }, 
-            questions: [
-                {
-                  type: 'multiple-choice',
-                  q: "詩の記録の他に、李徴が袁傪に頼んだことは何ですか。",
-                  options: ["自分の亡骸を弔うこと", "自分の妻子を世話すること", "自分の代わりに詩人になること", "自分のことを忘れること"],
-                  a: "自分の妻子を世話すること"
-                },
-                {
-                  type: 'extraction',
-                  q: "李徴は袁傪に、家族に対して「決して、＿＿ことだけは明かして呉れるな」と頼んだ。空欄に当てはまる言葉を本文から2文字で抜き出しなさい。",
-                  a: "今日"
-                },
-                {
-                  type: 'fill-in-the-blank',
-                  q: "李徴が家族について袁傪に頼んだ願いを、彼は自身の「最後の、＿＿」だと述べている。空欄に当てはまる言葉を答えなさい。",
-                  a: ["わがまま"]
-                },
-                {
-                  type: 'multiple-choice',
-                  q: "なぜ李徴は、自分が死んだと伝えてほしいのでしょうか。",
-                  options: ["家族に忘れられたいから", "自分が虎になった真実を隠したいから", "家族に心配をかけたくないから", "BとCの両方"],
-                  a: "BとCの両方"
-                },
-                {
-                  type: 'extraction',
-                  q: "李徴が詩を妻子に読んでほしいと願ったのは、自分が何に苦しんだかを知ってほしかったからと、もう一つ何を知ってほしかったからですか。本文から「何を〜」の形で5文字で抜き出しなさい。",
-                  a: "何を、目指し"
-                }
-            ]
-        },
-        { 
-            id: 10, 
-            subtitle: "山月の咆哮", 
-            text: "袁傪の一行が、丘を去ってから、百歩も行かないうちに、一行は、また、先刻の叢を振り返った。彼等は、見ていた。一匹の虎が草の茂みから道の上に躍り出たのを。虎は、既に白く光を失った月を仰いで、二声三声※1咆哮したかと思うと、又、元の叢に躍り入って、再びその姿を見なかった。袁傪は、部下に命じて、李徴の詩を書き取らせ、これを伝えた。李徴の詩は、格調高雅、意趣卓逸、一読して作者の才の非凡を思わせるものだったという。しかし、その詩を、人々が口ずさむことはあっても、作者の悲しい運命を知る者は、袁傪の他には、誰もいなかった。",
-            notes: { "1": "咆哮（ほうこう）：猛獣などが、吠えること。また、その声。" }, 
-            questions: [
-                {
-                  type: 'multiple-choice',
-                  q: "袁傪たちが去った後、虎はどのような行動をとりましたか。",
-                  options: ["一行を追いかけた", "静かに眠った", "月に向かって咆哮した", "袁傪の名前を呼んだ"],
-                  a: "月に向かって咆哮した"
-                },
-                {
-                  type: 'extraction',
-                  q: "虎が仰いだ月の様子を、本文から9文字で抜き出しなさい。",
-                  a: "既に白く光を失った月"
-                },
-                {
-                  type: 'fill-in-the-blank',
-                  q: "李徴が残した詩は、格調高雅で意趣卓逸であり、作者の才の「＿＿」を思わせるものだった。空欄に当てはまる言葉を答えなさい。",
-                  a: ["非凡"]
-                },
-                {
-                  type: 'multiple-choice',
-                  q: "李徴の詩は人々に知られましたか。",
-                  options: ["誰にも知られなかった", "詩は知られたが、作者の運命は知られなかった", "詩も運命も、すべて人々に知られた", "袁傪だけが知っていた"],
-                  a: "詩は知られたが、作者の運命は知られなかった"
-                },
-                {
-                  type: 'extraction',
-                  q: "李徴の悲しい運命を知っていた唯一の人物は誰ですか。本文から2文字で抜き出しなさい。",
-                  a: "袁傪"
-                }
-            ]
-        }
-    ]
-};
\ No newline at end of file
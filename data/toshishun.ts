@@ -1,374 +0,0 @@
-
-import { Work } from '../types';
-
-export const toshishunWork: Work = {
-    id: "toshishun", 
-    author: "芥川龍之介", 
-    title: "杜子春", 
-    description: "仙人になることを夢見る青年、杜子春が様々な試練を通して、人間にとって本当に大切なものを見つけていく物語。", 
-    excerpts: [
-        {
-          id: 1,
-          subtitle: "洛陽の若者",
-          text: "ある春の日の暮れ方です。※1唐の都、※2洛陽の西の門の下に、ぼんやり空を眺めていた一人の若者がありました。若者は名を杜子春といって、もとは金持の息子でしたが、今は財産を使い尽して、その日の暮らしにも困るくらい、落ちぶれていました。広い洛陽の都の中にも、彼に宿を貸そうという家は、一軒もありません。まして、飲み食いの世話をしてくれる親類や友達は、一人もいないのです。彼は、門の壁に身をもたせ、行き交う人々を眺めながら、どうしたものかと、途方に暮れていたのでした。空には、星が、ちらほら、またたき始めていました。彼は、自分の、愚かさを、呪っていました。明日からの、生活の、あても、全く、なかったのです。",
-          notes: {
-            "1": "唐（とう）：昔の中国の王朝（618年～907年）。",
-            "2": "洛陽（らくよう）：唐の都の一つで、非常に栄えた大都市。"
-          },
-          questions: [
-              {
-                type: 'multiple-choice',
-                q: "物語の主人公、杜子春は、冒頭でどのような状況にありましたか。",
-                options: ["大金持ちで贅沢に暮らしていた", "財産を使い果たし落ちぶれていた", "仙人になるための修行をしていた", "旅の途中だった"],
-                a: "財産を使い果たし落ちぶれていた"
-              },
-              {
-                type: 'extraction',
-                q: "杜子春がいた場所は、唐の都、洛陽のどこですか。本文から4文字で抜き出しなさい。",
-                a: "西の門の下"
-              },
-              {
-                type: 'fill-in-the-blank',
-                q: "杜子春は、財産を使い果たし、「＿＿の暮らしにも困るくらい」落ちぶれていた。空欄に当てはまる言葉を答えなさい。",
-                a: ["その日"]
-              },
-              {
-                type: 'multiple-choice',
-                q: "「ぼんやり空を眺めていた」という描写から、杜子春のどのような心情がうかがえますか。",
-                options: ["希望に満ちている", "怒りに燃えている", "途方に暮れている", "空腹で倒れそう"],
-                a: "途方に暮れている"
-              },
-              {
-                type: 'extraction',
-                q: "杜子春には世話をしてくれる親類や友達がどうなっていたか、本文から6文字で抜き出しなさい。",
-                a: "一人もいない"
-              }
-          ]
-        },
-        {
-          id: 2,
-          subtitle: "不思議な老人",
-          text: "そこへ通りかかったのが、※1片目眇の老人でした。老人は、杜子春の前に足を止めると、「お前は何を考えているのだ。」と、横柄に尋ねました。「私は、今夜寝る所もないので、どうしようか考えているのです。」と、杜子春が答えると、老人は、「そうか。では、おれがいいことを教えてやろう。この夕日の中に立って、自分の影の頭にあたる場所を掘ってみろ。きっと黄金が一箱埋まっているはずだ。」と言いました。杜子春は、驚いて、「本当ですか。」と、聞き返しました。老人は、だまって、うなずきました。その目は、まるで、人間の心を、見透かすような、鋭い光を、宿していました。杜子春は、その、不思議な、力に、圧倒されました。信じられない、話でした。",
-          notes: { "1": "片目眇（かためすがめ）：片方の目が不自由なこと。" },
-          questions: [
-              {
-                type: 'multiple-choice',
-                q: "杜子春の前に現れた老人の身体的な特徴は何ですか。",
-                options: ["足が不自由", "耳が遠い", "背がとても低い", "片目が不自由"],
-                a: "片目が不自由"
-              },
-              {
-                type: 'extraction',
-                q: "老人が杜子春に教えた、黄金を見つける方法とは、どこを掘ることでしたか。本文から「〜場所」の形で10文字で抜き出しなさい。",
-                a: "自分の影の頭にあたる場所"
-              },
-              {
-                type: 'fill-in-the-blank',
-                q: "老人は「＿＿がいいことを教えてやろう」と、杜子春に言った。空欄に当てはまる言葉を答えなさい。",
-                a: ["おれ"]
-              },
-              {
-                type: 'multiple-choice',
-                q: "老人の言葉を聞いた杜子春は、最初にどう思いましたか。",
-                options: ["すぐに信じて喜んだ", "嘘だと思って怒った", "驚いて本当かと聞き返した", "無視した"],
-                a: "驚いて本当かと聞き返した"
-              },
-              {
-                type: 'extraction',
-                q: "老人の目は、何を宿していましたか。本文から5文字で抜き出しなさい。",
-                a: "鋭い光"
-              }
-          ]
-        },
-        {
-          id: 3,
-          subtitle: "再びの大金持ち",
-          text: "杜子春が、半信半疑で、老人の言う通りにしてみると、果して、そこからは黄金の詰まった大きな箱が一つ出てきました。杜子春は、大喜びです。その日から、彼の家には、もとのように人が集まり、彼は、以前にもまさる、贅沢な暮らしを始めました。しかし、黄金がいくらあっても、いつかはなくなるものです。二年、三年とたつうちに、彼は、またもとの※1一文無しになってしまいました。そして、彼の周りにいた、大勢の友人たちは、いつの間にか、一人もいなくなってしまいました。彼らは、杜子春の、金が、目当てだったのです。彼は、人間の、※2薄情さを、身に、しみて、感じました。彼は、また、孤独に、なったのです。",
-          notes: {
-            "1": "一文無し（いちもんなし）：お金を全く持っていないこと。",
-            "2": "薄情さ（はくじょうさ）：人情に薄く、思いやりがないこと。"
-          },
-          questions: [
-              {
-                type: 'multiple-choice',
-                q: "大金持ちに戻った杜子春は、どのような生活を送りましたか。",
-                options: ["質素な生活", "以前にもまさる贅沢な暮らし", "旅に出る生活", "商売を始める生活"],
-                a: "以前にもまさる贅沢な暮らし"
-              },
-              {
-                type: 'extraction',
-                q: "杜子春が再び一文無しになるまで、どのくらいの時間がかかりましたか。本文から5文字以内で抜き出しなさい。",
-                a: "二年、三年"
-              },
-              {
-                type: 'fill-in-the-blank',
-                q: "杜子春の周りにいた友人たちは、彼の「＿＿が、目当てだった」のです。空欄に当てはまる言葉を答えなさい。",
-                a: ["金"]
-              },
-              {
-                type: 'multiple-choice',
-                q: "再び無一物になった杜子春が感じたことは何ですか。",
-                options: ["人間の優しさ", "人間の薄情さ", "努力の大切さ", "仙術のすばらしさ"],
-                a: "人間の薄情さ"
-              },
-              {
-                type: 'extraction',
-                q: "「一文無し」とはどのような意味ですか。注釈から9文字以内で抜き出しなさい。",
-                a: "お金を全く持っていないこと"
-              }
-          ]
-        },
-        {
-          id: 4,
-          subtitle: "人間の心",
-          text: "また一文無しになった杜子春が、同じ門の下で佇んでいると、また、あの老人が現れました。「お前は、また、無一物になったな。どうだ、もう一度、おれが黄金を掘り出してやろうか。」杜子春は、今度は、こう答えました。「もう、お金は要りません。お金があっても、人は、心が醜くなるばかりです。私は、人間らしい、※1正直な暮らしがしたいのです。」老人は、にやりと笑って、「ほう、それが、お前の、本当の、望みか。」と、尋ねました。杜子春は、力強く、うなずきました。彼の目には、もう、以前のような、※2迷いは、ありませんでした。彼は、自分の、進むべき道を、見つけたのです。彼は、もう、お金に、惑わされることは、ないでしょう。",
-          notes: {
-            "1": "正直な暮らし（しょうじきなくらし）：贅沢や見栄を張らず、まじめに働くこと。",
-            "2": "迷い（まよい）：どうすべきかわからず、心が定まらないこと。"
-          },
-          questions: [
-              {
-                type: 'multiple-choice',
-                q: "再び現れた老人の「黄金を掘り出してやろうか」という提案に対し、杜子春はどう答えましたか。",
-                options: ["喜んでお願いした", "もうお金は要らないと断った", "半分だけ欲しいと頼んだ", "無視した"],
-                a: "もうお金は要らないと断った"
-              },
-              {
-                type: 'extraction',
-                q: "杜子春がお金を要らないと考えた理由を、本文から「〜からです」の形で11文字で抜き出しなさい。",
-                a: "心が醜くなるばかりです"
-              },
-              {
-                type: 'fill-in-the-blank',
-                q: "杜子春が望んだのは、「人間らしい、＿＿な暮らし」だった。空欄に当てはまる言葉を答えなさい。",
-                a: ["正直"]
-              },
-              {
-                type: 'multiple-choice',
-                q: "二度目の失敗を経て、杜子春の心境はどのように変化しましたか。",
-                options: ["よりお金持ちになりたいと思うようになった", "人間不信がさらに深まった", "物質的な豊かさより精神的な豊かさを求めるようになった", "老人を恨むようになった"],
-                a: "物質的な豊かさより精神的な豊かさを求めるようになった"
-              },
-              {
-                type: 'extraction',
-                q: "この時の杜子春の目には、もう以前のような何がありませんでしたか。本文から2文字で抜き出しなさい。",
-                a: "迷い"
-              }
-          ]
-        },
-        {
-          id: 5,
-          subtitle: "仙人への道",
-          text: "その言葉を聞くと、老人は、にっこり笑って、「そうか。お前は、ようやく、それが分ったか。では、おれは、実はお前を※1仙人にしてやろうと思っていたのだ。おれは、※2峨眉山に住む、※3鉄冠子という仙人だ。もし、お前にも仙人になる気があるなら、弟子にしてやろう。」と言いました。杜子春は、喜んで、仙人になることを決心しました。「お願いします。私を、あなたの弟子に、してください。」杜子春は、地面にひれ伏して、仙人にお願いしました。人間の、欲望や、苦しみから、解放されたいと、彼は、心から、願ったのです。彼は、新しい、人生が、始まることを、期待しました。これで、もう、苦しむことは、ないだろうと、思ったのです。",
-          notes: {
-            "1": "仙人（せんにん）：俗世間を離れ、不老不死の術などを得た、超人的な力を持つ人。",
-            "2": "峨眉山（がびさん）：中国にある、仙人が住むとされる有名な山。",
-            "3": "鉄冠子（てっかんし）：この老人の仙人としての名前。"
-          },
-          questions: [
-              {
-                type: 'multiple-choice',
-                q: "老人の正体は何でしたか。",
-                options: ["洛陽の王様", "杜子春の父親", "鉄冠子という仙人", "ただの親切な老人"],
-                a: "鉄冠子という仙人"
-              },
-              {
-                type: 'extraction',
-                q: "仙人が住んでいる山の名前を、本文から3文字で抜き出しなさい。",
-                a: "峨眉山"
-              },
-              {
-                type: 'fill-in-the-blank',
-                q: "杜子春が仙人になりたいと思ったのは、人間の「＿＿や、＿＿から、解放されたい」と願ったからだ。空欄に当てはまる言葉を答えなさい。",
-                a: ["欲望", "苦しみ"]
-              },
-              {
-                type: 'multiple-choice',
-                q: "仙人の提案を聞いた杜子春は、どうしましたか。",
-                options: ["断った", "少し考えさせてほしいと言った", "喜んで弟子になることを決心した", "信じずに逃げ出した"],
-                a: "喜んで弟子になることを決心した"
-              },
-              {
-                type: 'extraction',
-                q: "「仙人」とはどのような人ですか。注釈から「〜人」の形で9文字以内で抜き出しなさい。",
-                a: "超人的な力を持つ人"
-              }
-          ]
-        },
-        {
-          id: 6,
-          subtitle: "沈黙の試練",
-          text: "峨眉山の奥深く、杜子春は、仙人の弟子となりました。仙人は、彼に言いました。「これから、お前は、ここで、たった一人で修行をしてもらう。だが、一つだけ、大事なことがある。それは、何が起っても、決して、口をきいてはならない、ということだ。もし、一言でも声を出したら、お前の仙人修行は、その場で、終わりだと思え。」杜子春は、うなずきました。そして、その日から、彼は、一人で、岩の上に座り、黙って、修行を始めました。周囲には、ただ、風の音と、鳥の声だけが、聞こえていました。彼は、心を、※1無に、しようと、努めました。どんな、誘惑にも、負けては、ならないと、彼は、心に、誓ったのです。",
-          notes: { "1": "無に（むに）：何も考えず、感情もない、空っぽの状態にすること。" },
-          questions: [
-              {
-                type: 'multiple-choice',
-                q: "仙人が杜子春に課した修行で、最も重要な約束事は何でしたか。",
-                options: ["毎日水を飲むこと", "決して口をきかないこと", "毎日詩を作ること", "決して眠らないこと"],
-                a: "決して口をきかないこと"
-              },
-              {
-                type: 'extraction',
-                q: "もし約束を破ったら、どうなると言われましたか。本文から「〜終わりだ」の形で9文字で抜き出しなさい。",
-                a: "その場で、終わりだ"
-              },
-              {
-                type: 'fill-in-the-blank',
-                q: "杜子春は「心を、＿＿に、しようと、努めました」。空欄に当てはまる言葉を答えなさい。",
-                a: ["無"]
-              },
-              {
-                type: 'multiple-choice',
-                q: "修行の場所はどのような所でしたか。",
-                options: ["賑やかな町の中", "美しい花の咲く庭園", "峨眉山の奥深く", "静かな湖のほとり"],
-                a: "峨眉山の奥深く"
-              },
-              {
-                type: 'extraction',
-                q: "「無に」するとは、どのような状態にすることですか。注釈から9文字以内で抜き出しなさい。",
-                a: "何も考えず、感情もない"
-              }
-          ]
-        },
-        {
-          id: 7,
-          subtitle: "地獄の責め苦",
-          text: "やがて、杜子春の前に、恐ろしい鬼が現れ、彼を捕えて地獄へ引きずって行きました。地獄では、※1閻魔大王が、杜子春に、様々な責め苦を与えました。舌を抜かれ、皮を剥がれ、油の煮えたぎる釜の中へ投げ込まれても、杜子春は、仙人との約束を固く守って、黙り続けていました。鬼どもは、その根強さに、呆れ返ってしまいました。「こいつは、どういう、人間だ。これだけの、苦しみを与えても、一言も、声を出さない。」杜子春は、ただ、歯を食いしばり、一点を、見つめていました。彼の、意識は、遠のきそうになりました。しかし、彼は、負けるわけには、いかなかったのです。",
-          notes: { "1": "閻魔大王（えんまだいおう）：死者の世界の王。死者の罪を裁くとされる。" },
-          questions: [
-              {
-                type: 'multiple-choice',
-                q: "杜子春に訪れた最初の試練は何でしたか。",
-                options: ["美しい女性の誘惑", "虎との戦い", "地獄での責め苦", "大金持ちになること"],
-                a: "地獄での責め苦"
-              },
-              {
-                type: 'extraction',
-                q: "地獄で杜子春を裁いた王の名前を、本文から4文字で抜き出しなさい。",
-                a: "閻魔大王"
-              },
-              {
-                type: 'fill-in-the-blank',
-                q: "地獄での様々な責め苦にあっても、杜子春は仙人との約束を守り、「＿＿続けていました」。空欄に当てはまる言葉を答えなさい。",
-                a: ["黙り"]
-              },
-              {
-                type: 'multiple-choice',
-                q: "杜子春の様子を見た鬼たちは、どのように感じましたか。",
-                options: ["感心した", "怒った", "同情した", "呆れ返った"],
-                a: "呆れ返った"
-              },
-              {
-                type: 'extraction',
-                q: "杜子春が受けた責め苦の一つを、本文から5文字以内で抜き出しなさい。",
-                a: ["舌を抜かれ", "皮を剥がれ"]
-              }
-          ]
-        },
-        {
-          id: 8,
-          subtitle: "最後の試練",
-          text: "鬼どもは、最後に、一匹の馬を連れてきました。その馬は、骨と皮ばかりに痩せ衰えていましたが、それは、杜子春の両親が、※1畜生道に落ちた姿だったのでした。鬼は、その馬を、杜子春の目の前で、鞭で打ち始めました。馬は、悲しそうに、いななきました。それでも、杜子春は、唇を噛んで、黙っていました。彼は、これが、最後の、試練だと、思いました。これを、乗り越えれば、私は、仙人になれるのだと。彼は、目を、固く、閉じていました。涙が、頬を、伝いました。心の中は、嵐のようでした。彼は、必死に、耐えていたのです。",
-          notes: { "1": "畜生道（ちくしょうどう）：仏教で、生前の行いが悪かった者が死後に生まれ変わるとされる、獣の世界。" },
-          questions: [
-              {
-                type: 'multiple-choice',
-                q: "地獄での最後の試練として現れた馬は、誰の変わり果てた姿でしたか。",
-                options: ["仙人", "友人", "杜子春の両親", "閻魔大王"],
-                a: "杜子春の両親"
-              },
-              {
-                type: 'extraction',
-                q: "鬼たちは、その馬をどうしましたか。本文から7文字で抜き出しなさい。",
-                a: "鞭で打ち始めました"
-              },
-              {
-                type: 'fill-in-the-blank',
-                q: "両親が苦しむ姿を見ても、杜子春は「＿＿を噛んで、黙っていました」。空欄に当てはまる言葉を答えなさい。",
-                a: ["唇"]
-              },
-              {
-                type: 'multiple-choice',
-                q: "この時の杜子春の心情として、最も適切なものはどれですか。",
-                options: ["何も感じていない", "怒りに燃えている", "心の中は嵐のようだった", "喜びに満ちていた"],
-                a: "心の中は嵐のようだった"
-              },
-              {
-                type: 'extraction',
-                q: "「畜生道」とはどのような世界ですか。注釈から「〜世界」の形で4文字以内で抜き出しなさい。",
-                a: "獣の世界"
-              }
-          ]
-        },
-        {
-          id: 9,
-          subtitle: "母の声",
-          text: "しかし、鞭打たれる馬の中から、懐かしい母親の声がしました。「心配をおしでないよ。私たちは、こうなっても、お前が立派な仙人になれるのなら、※1本望だよ。だから、お前の好きなように、おやり。」その声を聞いた時、杜子春は、思わず、「お母さん。」と、叫んでいました。彼は、仙人になることよりも、母親を、思う、心を、選んだのです。その瞬間、彼の周りの、地獄の風景は、夢のように、消え失せてしまいました。彼の、心の中に、温かいものが、広がっていきました。彼は、自分の、選択が、正しかったと、感じました。後悔は、ありませんでした。",
-          notes: { "1": "本望（ほんもう）：元々の願いがかなって満足なこと。" },
-          questions: [
-              {
-                type: 'multiple-choice',
-                q: "杜子春がついに沈黙を破ってしまった直接のきっかけは何ですか。",
-                options: ["鬼に殴られたこと", "母親の声を聞いたこと", "父親の声を聞いたこと", "仙人の声を聞いたこと"],
-                a: "母親の声を聞いたこと"
-              },
-              {
-                type: 'extraction',
-                q: "母親は、杜子春が仙人になれるなら自分たちはどうだとと言いましたか。本文から2文字で抜き出しなさい。",
-                a: "本望"
-              },
-              {
-                type: 'fill-in-the-blank',
-                q: "杜子春は思わず「＿＿。」と叫んでしまった。空欄に当てはまる言葉を答えなさい。",
-                a: ["お母さん"]
-              },
-              {
-                type: 'multiple-choice',
-                q: "声をあげた瞬間、杜子春の周りはどうなりましたか。",
-                options: ["さらに激しい責め苦が始まった", "鬼たちが喜んだ", "地獄の風景が消え失せた", "仙人が現れて助けてくれた"],
-                a: "地獄の風景が消え失せた"
-              },
-              {
-                type: 'extraction',
-                q: "「本望」とはどのような意味ですか。注釈から「〜こと」の形で8文字以内で抜き出しなさい。",
-                a: "願いがかなって満足なこと"
-              }
-          ]
-        },
-        {
-          id: 10,
-          subtitle: "人間として生きること",
-          text: "気がつくと、杜子春は、また、洛陽の西の門の下に、ぼんやりと座っていました。仙人が、目の前に立っていて、言いました。「お前は、とうとう、仙人にはなれなかった。だが、おれは、むしろ、満足している。もし、お前があの時、黙っていたら、おれは、お前を、たちまち、殺してしまっただろう。人間にとって、一番大切なものは、やはり、※1まごころだからな。」杜子春は、その日から、真面目に働き、幸福に暮したということです。彼は、もう、二度と、仙人になろうとは、思いませんでした。彼は、人間として、生きることの、尊さを、知ったのです。彼は、自分の、畑を、耕し、小さな、家に、住みました。",
-          notes: { "1": "まごころ：誠実な心、他人を思いやる純粋な心。" },
-          questions: [
-              {
-                type: 'multiple-choice',
-                q: "修行に失敗した仙人は、杜子春に対してどう思いましたか。",
-                options: ["怒っていた", "がっかりしていた", "むしろ満足していた", "無関心だった"],
-                a: "むしろ満足していた"
-              },
-              {
-                type: 'extraction',
-                q: "もし杜子春が最後まで黙っていたら、仙人は彼をどうするつもりでしたか。本文から8文字以内で抜き出しなさい。",
-                a: "たちまち、殺してしまった"
-              },
-              {
-                type: 'fill-in-the-blank',
-                q: "仙人が言う、人間にとって一番大切なものは「やはり、＿＿だからな」。空欄に当てはまる言葉を答えなさい。",
-                a: ["まごころ"]
-              },
-              {
-                type: 'multiple-choice',
-                q: "この物語の後、杜子春はどのような人生を送りましたか。",
-                options: ["再び大金持ちになった", "また仙人を目指した", "真面目に働き幸福に暮らした", "旅に出た"],
-                a: "真面目に働き幸福に暮らした"
-              },
-              {
-                type: 'extraction',
-                q: "「まごころ」とはどのような心ですか。注釈から5文字以内で抜き出しなさい。",
-                a: ["誠実な心", "純粋な心"]
-              }
-          ]
-        }
-    ] 
-};
\ No newline at end of file
@@ -1,387 +0,0 @@
-
-import { Work } from '../types';
-
-export const yodakaNoHoshiWork: Work = {
-    id: "yodaka-no-hoshi",
-    author: "宮沢賢治",
-    title: "よだかの星",
-    description: "醜い姿を理由にいじめられるよだかが、自らの存在意義に悩み、苦しみの果てに夜空の星になるまでを描く物語。",
-    excerpts: [
-        {
-            id: 1,
-            subtitle: "みにくいよだか",
-            text: "よだかは、実にみにくい鳥です。顔は、ところどころ、味噌をつけたようにまだらで、くちばしは、ひらたくて、耳までさけています。足は、まるでよぼよぼで、一間とも歩けません。他の鳥は、もう、よだかの顔を見ただけでも、いやになってしまうという※1工合でした。よだかなんて、鳥のうちでも、一番、※2意気地なしで、間抜なやつだと、思われていました。例えば、ひばりが、空へあがって、雲雀になったり、ひばりの巣を、他の鳥が、襲ったりすると、よだかは、きっと、その鳥を、追い払ってやるのでした。それでも、やっぱり、意気地なしだと、思われていました。夜になると、よだかは、巣から出て、星空を、高く高く、飛び回るのでした。それが、彼にとって、唯一の、慰めでした。彼の心は、誰にも、理解されなかったのです。",
-            notes: { 
-              "1": "工合（ぐあい）：様子、状態のこと。",
-              "2": "意気地なし（いくじなし）：困難に立ち向かう気力がないこと。弱虫。" 
-            },
-            questions: [
-                { 
-                  type: 'multiple-choice',
-                  q: "よだかの外見の特徴として、本文に書かれていないものはどれですか。",
-                  options: ["顔がまだら", "くちばしが平たい", "足がよぼよぼ", "羽が美しい"],
-                  a: "羽が美しい"
-                },
-                {
-                  type: 'extraction',
-                  q: "他の鳥から「一番、＿＿で、間抜なやつだ」と思われていた。空欄に当てはまる、よだかへの評価を本文から5文字で抜き出しなさい。",
-                  a: "意気地なし"
-                },
-                {
-                  type: 'fill-in-the-blank',
-                  q: "よだかは、他の鳥の巣が襲われると、その鳥を「＿＿」という優しい一面を持っていた。空欄に当てはまる言葉を答えなさい。",
-                  a: ["追い払ってやる"]
-                },
-                {
-                  type: 'multiple-choice',
-                  q: "よだかにとって唯一の慰めは何でしたか。",
-                  options: ["ひばりを助けること", "夜に星空を飛び回ること", "巣でじっとしていること", "他の鳥と話すこと"],
-                  a: "夜に星空を飛び回ること"
-                },
-                {
-                  type: 'extraction',
-                  q: "「意気地なし」の注釈に書かれている意味を、3文字で抜き出しなさい。",
-                  a: "弱虫"
-                }
-            ]
-        },
-        { 
-            id: 2, 
-            subtitle: "鷹の脅迫", 
-            text: "ある夕方、鷹が、ひょいとやって来て、よだかの巣のすぐ下の枝にとまりました。そして、「おい、そこにいるのは、よだかだな。おまえは、顔つきから、名前から、意気地なしで、みんなにいやがられている。もう、名前を、※1市蔵と変えろ。」と、言いました。よだかは、ただ、ぶるぶるふるえていました。「市蔵という名は、いい名だぞ。おれが、つけてやったのだからな。もし、いやだなどと、言ってみろ。そのときは、すぐ、つかみ殺してしまうぞ。」鷹は、大きな翼をひろげて、よだかの巣のまわりを、一まわりして、どこかへ、行ってしまいました。よだかは、自分の名前が「たか」という音を含むために、鷹から※2憎まれていることに、うすうす、気づいていました。彼は、空を見上げて、泣きました。彼の孤独は、深まるばかりでした。",
-            notes: { 
-              "1": "市蔵（いちぞう）：鷹がよだかを侮辱するためにつけた、鳥らしくない人間の名前。",
-              "2": "憎まれている（にくまれている）：ひどく嫌われていること。"
-            }, 
-            questions: [
-                { 
-                  type: 'multiple-choice',
-                  q: "よだかの巣にやって来た鷹は、よだかに何を要求しましたか。",
-                  options: ["巣を明け渡すこと", "名前を「市蔵」に変えること", "獲物を差し出すこと", "弟のかわせみを連れてくること"],
-                  a: "名前を「市蔵」に変えること"
-                },
-                {
-                  type: 'extraction',
-                  q: "鷹がよだかを脅した言葉を、本文から「〜しまうぞ」の形で8文字で抜き出しなさい。",
-                  a: "つかみ殺してしまうぞ"
-                },
-                {
-                  type: 'fill-in-the-blank',
-                  q: "よだかが鷹から憎まれている理由は、自分の名前に「＿＿」という音が含まれるためだと気づいていた。空欄に当てはまるひらがな2文字を答えなさい。",
-                  a: ["たか"]
-                },
-                {
-                  type: 'multiple-choice',
-                  q: "鷹の脅迫を受けたよだかは、どうなりましたか。",
-                  options: ["勇敢に立ち向かった", "笑い飛ばした", "ただぶるぶるふるえていた", "すぐに名前を変えると約束した"],
-                  a: "ただぶるぶるふるえていた"
-                },
-                {
-                  type: 'extraction',
-                  q: "「市蔵」とはどのような名前ですか。注釈から「〜名前」の形で9文字以内で抜き出しなさい。",
-                  a: "鳥らしくない人間の名前"
-                }
-            ]
-        },
-        { 
-            id: 3, 
-            subtitle: "名前を変える決意", 
-            text: "よだかは、つらくて、つらくて、たまりませんでした。夜になって、巣から出て、雲のあいだを、泣きながら、飛びまわりました。…「ああ、いやだ、いやだ。こんな名前、鳥の仲間で、だれも聞かない名前だ。市蔵だなんて。…よし、僕は、もう、遠くの、遠くの空の向うへ、行ってしまおう。」と、決心しました。そして、弟の、※1かわせみに、※2別れを言いに行きました。「兄さん。あした、僕が、遠くへ行く前に、もう一度、会いに来ます。」と、よだかは、言いました。かわせみは、兄の、悲しそうな顔を見て、心配そうに、首を、かしげました。よだかは、涙をこらえて、巣へ、帰りました。星の光が、やけに、目に、しみました。彼は、この、みにくい、自分から、逃げ出したかったのです。",
-            notes: { 
-              "1": "かわせみ：青く美しい鳥。よだかとは対照的な存在として描かれている。",
-              "2": "別れを言いに行く：ここでは、もう二度と会えないかもしれない、最後のお別れの挨拶をしに行く、という意味。"
-            }, 
-            questions: [
-                {
-                  type: 'multiple-choice',
-                  q: "「市蔵」という名前を嫌がったよだかは、どのような決心をしましたか。",
-                  options: ["鷹に仕返しをしよう", "他の鳥に相談しよう", "遠い空の向こうへ行ってしまおう", "名前を受け入れよう"],
-                  a: "遠い空の向こうへ行ってしまおう"
-                },
-                {
-                  type: 'extraction',
-                  q: "よだかが別れを言いに行った相手は誰ですか。本文から弟の名前を4文字で抜き出しなさい。",
-                  a: "かわせみ"
-                },
-                {
-                  type: 'fill-in-the-blank',
-                  q: "よだかは「＿＿、僕が、遠くへ行く前に、もう一度、会いに来ます」と弟に言った。空欄に当てはまる言葉を答えなさい。",
-                  a: ["あした"]
-                },
-                {
-                  type: 'multiple-choice',
-                  q: "本文の最後の文「彼は、この、みにくい、自分から、逃げ出したかったのです」から、よだかのどのような気持ちが読み取れますか。",
-                  options: ["新しい冒険への期待", "強い自己嫌悪", "弟への愛情", "鷹への怒り"],
-                  a: "強い自己嫌悪"
-                },
-                {
-                  type: 'extraction',
-                  q: "よだかと対照的な存在として描かれている、青く美しい鳥の名前を本文から4文字で抜き出しなさい。",
-                  a: "かわせみ"
-                }
-            ]
-        },
-        { 
-            id: 4, 
-            subtitle: "生きることの罪", 
-            text: "よだかは、ぐんぐん、ぐんぐん、空へのぼって行きました。…ところが、よだかが口を大きくあけて、かけ声もろとも、そこを過ぎようとしましたら、何だか口の中に、ごちゃっとはいりました。それは、※1黄金虫でした。よだかは、はっとしましたが、もう、どうすることもできず、のどの方へのみこんでしまいました。そして、すぐ、胸が悪くなって、よだかは、泣き出しました。「ああ、黄金虫、かわいそうに。許しておくれ。僕は、もう、虫は食べないで、飢えて死のう。いや、その前に、鷹に、殺されるかもしれない。生きていること自体が、※2罪なのだ。」よだかは、自分の存在そのものに、深く、絶望しました。彼は、地面に、落ちて、しまいそうになりました。自分の、影さえも、嫌になりました。",
-            notes: {
-              "1": "黄金虫（こがねむし）：コガネムシ科の昆虫の総称。美しい光沢を持つものが多い。",
-              "2": "罪なのだ（つみなのだ）：道徳や神の教えに背く、許されない行いである、という意味。"
-            }, 
-            questions: [
-                {
-                  type: 'extraction',
-                  q: "空を飛んでいたよだかの口に偶然入ってしまった虫の名前を、本文から4文字で抜き出しなさい。",
-                  a: "黄金虫"
-                },
-                {
-                  type: 'multiple-choice',
-                  q: "黄金虫を食べてしまった後、よだかはどのような決意をしましたか。",
-                  options: ["もっとたくさんの虫を食べよう", "もう虫は食べないで飢えて死のう", "鷹に黄金虫をあげよう", "弟に謝りに行こう"],
-                  a: "もう虫は食べないで飢えて死のう"
-                },
-                {
-                  type: 'fill-in-the-blank',
-                  q: "よだかは、黄金虫を殺してしまったことで、「＿＿いること自体が、＿＿なのだ」と自分の存在そのものに絶望した。空欄に当てはまる言葉を答えなさい。",
-                  a: ["生きて", "罪"]
-                },
-                {
-                  type: 'multiple-choice',
-                  q: "この出来事を通して、よだかのどのような性格がわかりますか。",
-                  options: ["食いしん坊な性格", "他の命を奪うことに罪悪感を感じるほど繊細な性格", "無神経な性格", "勇敢な性格"],
-                  a: "他の命を奪うことに罪悪感を感じるほど繊細な性格"
-                },
-                {
-                  type: 'extraction',
-                  q: "よだかが「かわいそうに」と思った相手を、本文から4文字で抜き出しなさい。",
-                  a: "黄金虫"
-                }
-            ]
-        },
-        { 
-            id: 5, 
-            subtitle: "西の空への旅立ち", 
-            text: "よだかは、決心しました。「僕は、もう、どこまでも、どこまでも、まっすぐ、空へ上って行こう。そして、そこで、死んでしまおう。…僕が死ぬときは、きっと、空が青く燃えるんだ。僕が、それを、みんなに知らせるんだ。」そして、よだかは、まっすぐに、西の空へ、飛び立ちました。お日様は、ちょうど、西の地平線に、半分、沈んでいました。よだかは、お日様に向って、まっすぐに、飛んで行きました。彼は、もう、地上に、※1未練は、ありませんでした。ただ、遠い、星の光だけが、彼を、導いているようでした。彼は、自分の、運命を、受け入れたのです。そして、その運命に、意味を、与えようとしたのです。",
-            notes: {
-              "1": "未練（みれん）：諦めきれない気持ち。心残り。"
-            }, 
-            questions: [
-                {
-                  type: 'multiple-choice',
-                  q: "生きることに絶望したよだかは、どのような最期を迎えようと決心しましたか。",
-                  options: ["海に飛び込もう", "鷹と戦って死のう", "空へ上って死のう", "故郷に帰って静かに死のう"],
-                  a: "空へ上って死のう"
-                },
-                {
-                  type: 'fill-in-the-blank',
-                  q: "よだかは、自分が死ぬときには「きっと、空が＿＿燃えるんだ」と考えた。空欄に当てはまる言葉を答えなさい。",
-                  a: ["青く"]
-                },
-                {
-                  type: 'extraction',
-                  q: "よだかが旅立った方角を、本文から3文字で抜き出しなさい。",
-                  a: "西の空"
-                },
-                {
-                  type: 'multiple-choice',
-                  q: "この決心は、ただ死ぬことを選んだのではなく、自分の死に意味を与えようとする行為です。それは本文のどの記述からわかりますか。",
-                  options: ["「まっすぐ、空へ上って行こう」", "「僕が、それを、みんなに知らせるんだ」", "「地上に、未練は、ありませんでした」", "「お日様に向って、まっすぐに、飛んで行きました」"],
-                  a: "「僕が、それを、みんなに知らせるんだ」"
-                },
-                {
-                  type: 'extraction',
-                  q: "「未練」の注釈に書かれている意味を、8文字以内で抜き出しなさい。",
-                  a: "諦めきれない気持ち"
-                }
-            ]
-        },
-        { 
-            id: 6, 
-            subtitle: "太陽への願い", 
-            text: "とうとう、太陽が、すぐそこになりました。よだかは、太陽に叫びました。「お日さん、お日さん。どうぞ、私を、あなたの所へ、連れて行って下さい。焼けて死んでも、かまいません。私のような、みにくいものは、もう、生きていない方が、いいのです。」すると、太陽は、言いました。「おまえは、よだかだな。なるほど、みにくいな。しかし、おまえは、星にはなれない。おまえは、夜の鳥だからな。それに、おまえのからだは、燃えない。ただ、黒く、こげるだけだ。さあ、あっちへ行け。」太陽の光が、あまりに強くて、よだかは、目を開けていることも、できませんでした。彼は、絶望の、※1淵に、立たされました。最後の、希望が、砕かれたのです。",
-            notes: {
-              "1": "淵（ふち）：水の深いところ。ここでは、抜け出すのが難しい、ぎりぎりの状態のたとえ。"
-            }, 
-            questions: [
-                {
-                  type: 'extraction',
-                  q: "よだかは太陽に「私を、あなたの所へ、＿＿下さい」と叫んだ。空欄に当てはまる言葉を本文から6文字で抜き出しなさい。",
-                  a: "連れて行って"
-                },
-                {
-                  type: 'multiple-choice',
-                  q: "太陽がよだかの願いを断った理由として、本文に書かれていないものはどれですか。",
-                  options: ["よだかはみにくいから", "よだかは夜の鳥だから", "よだかの体は燃えないから", "よだかは飛ぶのが遅いから"],
-                  a: "よだかは飛ぶのが遅いから"
-                },
-                {
-                  type: 'fill-in-the-blank',
-                  q: "太陽は、よだかの体は燃えずに「ただ、黒く、＿＿だけだ」と冷たく言った。空欄に当てはまる言葉を答えなさい。",
-                  a: ["こげる"]
-                },
-                {
-                  type: 'multiple-choice',
-                  q: "太陽の返答は、よだかにとってどのようなものでしたか。",
-                  options: ["希望に満ちたもの", "優しさにあふれたもの", "最後の希望を砕く絶望的なもの", "意外な提案"],
-                  a: "最後の希望を砕く絶望的なもの"
-                },
-                {
-                  type: 'extraction',
-                  q: "「淵」の注釈に書かれている、この場面でのたとえとしての意味を、「〜状態」の形で8文字以内で抜き出しなさい。",
-                  a: "ぎりぎりの状態"
-                }
-            ]
-        },
-        { 
-            id: 7, 
-            subtitle: "星々の拒絶", 
-            text: "よだかは、泣きそうになりながら、それでも、上へ、上へ、のぼりました。…鷲の星が、言いました。「おい、※1けしからん。あっちへ行け。おまえのような、羽虫の仲間なぞ、おれたちの仲間には、なれないのだ。」大犬の星も、「そうだ、そうだ。あっちへ行け。」と、言いました。よだかは、がっかりして、また、もとの方へ、少しおりて来ました。そして、そこから、また、上へのぼって行きました。今度は、オリオンの星たちが、冷ややかに、笑いました。「あいつは、なんだ。みっともないな。」その声が、よだかの耳に、突き刺さりました。※2天上（てんじょう）の、世界も、地上と、同じでした。どこにも、彼の、居場所は、なかったのです。",
-            notes: { 
-              "1": "けしからん：常識外れで、許しがたいこと。",
-              "2": "天上（てんじょう）：空の上、天の世界。"
-             }, 
-            questions: [
-                {
-                  type: 'multiple-choice',
-                  q: "太陽に断られた後、よだかを拒絶しなかった星はどれですか。",
-                  options: ["鷲の星", "大犬の星", "オリオンの星", "本文にはない"],
-                  a: "本文にはない"
-                },
-                {
-                  type: 'extraction',
-                  q: "鷲の星は、よだかを何と呼びましたか。本文から4文字で抜き出しなさい。",
-                  a: "羽虫の仲間"
-                },
-                {
-                  type: 'fill-in-the-blank',
-                  q: "オリオンの星たちは、よだかを見て「あいつは、なんだ。＿＿な」と冷ややかに笑った。空欄に当てはまる言葉を答えなさい。",
-                  a: ["みっともない"]
-                },
-                {
-                  type: 'multiple-choice',
-                  q: "天上の世界も地上と同じだった、とありますが、何が同じだったのでしょうか。",
-                  options: ["美しい景色", "優しい仲間がいること", "見た目で差別され、居場所がないこと", "鷹がいること"],
-                  a: "見た目で差別され、居場所がないこと"
-                },
-                {
-                  type: 'extraction',
-                  q: "「天上」の注釈に書かれている意味を、7文字以内で抜き出しなさい。",
-                  a: "空の上、天の世界"
-                }
-            ]
-        },
-        { 
-            id: 8, 
-            subtitle: "最後の飛翔", 
-            text: "よだかは、もう、すっかり元気がなくなって、下に落ちて行きました。…しかし、よだかは、ふと、また、思いました。「そうだ。僕は、もう一度、空へ、のぼってみよう。そして、こんどは、きっと、もっと高く、もっと高く、のぼって、僕のからだを、火のように、燃やしてしまおう。」そして、よだかは、また、ぐんぐん、ぐんぐん、上へ、のぼって行きました。寒さに、息は、白く凍り、空気は、まるで、氷のようでした。それでも、よだかは、のぼり続けました。もう、地上の、いじめも、悲しみも、届かない、そんな、高い、高い、空を、目指して。彼の、小さな、※1心臓は、破れそうでした。それは、最後の、飛翔でした。",
-            notes: {
-              "1": "心臓（しんぞう）：血液を全身に送るポンプの役目をする、胸の中にある臓器。ここでは「心」の比喩でもある。"
-            }, 
-            questions: [
-                {
-                  type: 'multiple-choice',
-                  q: "一度元気をなくして落下しかけたよだかが、再び思い直したことは何ですか。",
-                  options: ["地上に降りて謝ろう", "もう一度空へ高くのぼり、体を燃やそう", "弟のかわせみに助けを求めよう", "鷹に復讐しよう"],
-                  a: "もう一度空へ高くのぼり、体を燃やそう"
-                },
-                {
-                  type: 'extraction',
-                  q: "よだかが目指した場所は、何が届かない場所ですか。本文から「〜も、〜も」の形で、それぞれ3文字以内で抜き出しなさい。",
-                  a: ["いじめも", "悲しみも"]
-                },
-                {
-                  type: 'fill-in-the-blank',
-                  q: "空をのぼっていくと、空気は「まるで、＿＿のようでした」。空欄に当てはまる言葉を答えなさい。",
-                  a: ["氷"]
-                },
-                {
-                  type: 'multiple-choice',
-                  q: "「それは、最後の、飛翔でした」という一文が暗示していることは何ですか。",
-                  options: ["よだかの旅が終わること", "よだかの命が尽きようとしていること", "よだかがついに目的地に着くこと", "よだかの物語が終わること"],
-                  a: "よだかの命が尽きようとしていること"
-                },
-                {
-                  type: 'extraction',
-                  q: "よだかの「小さな、＿＿は、破れそうでした」。空欄に当てはまる、本文中の臓器の名前を2文字で抜き出しなさい。",
-                  a: "心臓"
-                }
-            ]
-        },
-        { 
-            id: 9, 
-            subtitle: "よだかの燃焼", 
-            text: "よだかのからだは、いま、丁度、※1カシオピアの横に、なって、りんごのように、赤く、燃えていました。…やがて、よだかは、青白く、うつくしい光になって、静かに、静かに、燃え続けました。鷹は、もう、二度と、よだかを、いじめませんでした。そして、よだかの星は、いつまでも、いつまでも、燃え続けました。夜の鳥たちは、みんな、この星を見て、自分の進む道を、きめるのでした。みにくいと、笑われた、よだかが、夜空の、一番、美しい、※2道しるべになったのです。彼は、自分の、命と、引き換えに、永遠の、価値を、手に入れたのです。",
-            notes: {
-              "1": "カシオピア：カシオペヤ座。北の空に見える、Wの形をした星座。",
-              "2": "道しるべ（みちしるべ）：道を行く人のために、方向などを示す目印。"
-            }, 
-            questions: [
-                {
-                  type: 'fill-in-the-blank',
-                  q: "よだかの体は「＿＿のように、赤く、燃えていました」。空欄に当てはまる果物の名前を答えなさい。",
-                  a: ["りんご"]
-                },
-                {
-                  type: 'multiple-choice',
-                  q: "最終的に、よだかはどのような姿になりましたか。",
-                  options: ["黒い煙になった", "小さな灰になった", "青白くうつくしい光の星になった", "鷹になった"],
-                  a: "青白くうつくしい光の星になった"
-                },
-                {
-                  type: 'extraction',
-                  q: "よだかが星になったことで、夜の鳥たちは何を決められるようになりましたか。本文から6文字で抜き出しなさい。",
-                  a: "自分の進む道"
-                },
-                {
-                  type: 'multiple-choice',
-                  q: "みにくいと笑われたよだかは、最終的に夜空の何になりましたか。",
-                  options: ["一番暗い星", "一番大きな星", "一番美しい道しるべ", "一番速い流れ星"],
-                  a: "一番美しい道しるべ"
-                },
-                {
-                  type: 'extraction',
-                  q: "よだかが永遠の価値を手に入れるために、引き換えにしたものは何ですか。本文から4文字で抜き出しなさい。",
-                  a: "自分の、命"
-                }
-            ]
-        },
-        { 
-            id: 10, 
-            subtitle: "青く燃える星", 
-            text: "今でも、その火は、燃えています。よだかの星は、いつまでも、いつまでも、青く、うつくしく、光るのでした。…ああ、あすこに、よだかの星が、燃えている。たぶん、もう、消えるときだろう。いや、そうではない。あれは、いつまでも、燃えるのだ。宮沢賢治は、そう考えました。なぜなら、このお話は、賢治が、私たちに、そう信じてほしいと、願って、書いたものだからです。どんなに、みにくくても、どんなに、苦しくても、自分の、※1まことの、心に従って、生き抜けば、きっと、美しい光を、放つことが、できるのだと。その、小さな、星は、今も、夜空で、輝いているのです。",
-            notes: {
-              "1": "まことの：嘘偽りのない、本当の。"
-            }, 
-            questions: [
-                {
-                  type: 'multiple-choice',
-                  q: "作者の宮沢賢治は、よだかの星の未来について、最終的にどう考えていますか。",
-                  options: ["すぐに消えるだろう", "いつまでも燃え続けるのだ", "他の星に吸収されるだろう", "地上に落ちてくるだろう"],
-                  a: "いつまでも燃え続けるのだ"
-                },
-                {
-                  type: 'extraction',
-                  q: "作者がこの物語を通して伝えたかったメッセージを、本文から「〜と」の形で24文字で抜き出しなさい。",
-                  a: "美しい光を、放つことが、できるのだと"
-                },
-                {
-                  type: 'fill-in-the-blank',
-                  q: "メッセージの中で、「自分の、＿＿の、心に従って、生き抜けば」とある。空欄に当てはまる言葉を答えなさい。",
-                  a: ["まこと"]
-                },
-                {
-                  type: 'multiple-choice',
-                  q: "物語の最後、よだかの星はどうなっていますか。",
-                  options: ["消えてしまった", "赤く燃えている", "今も夜空で輝いている", "他の星とぶつかった"],
-                  a: "今も夜空で輝いている"
-                },
-                {
-                  type: 'extraction',
-                  q: "「まことの」という言葉の注釈に書かれている意味を、7文字で抜き出しなさい。",
-                  a: "嘘偽りのない、本当の"
-                }
-            ]
-        }
-    ]
-};
\ No newline at end of file
@@ -0,0 +1,130 @@
+import { Question } from './types';
+import { normalizeAnswer } from './normalization';
+
+// --- Descriptive Answer Graders ---
+// Automatic assessment of written answers against a question's rubric. The Gemini grader is
+// used when GEMINI_API_KEY is configured; otherwise the local keyword grader keeps the app offline.
+
+export interface DescriptiveGradingRequest {
+  question: Question;
+  rubric: string[];
+  answer: string;
+}
+
+export interface DescriptiveGradingResult {
+  score: number;     // 0 to 1, the share of rubric points covered
+  covered: number[]; // Indices into the rubric
+  feedback: string;
+}
+
+export interface DescriptiveGrader {
+  name: string;
+  grade: (request: DescriptiveGradingRequest) => Promise<DescriptiveGradingResult>;
+}
+
+const toResult = (rubric: string[], covered: number[], feedback: string): DescriptiveGradingResult => {
+  const valid = [...new Set(covered)].filter(i => Number.isInteger(i) && i >= 0 && i < rubric.length).sort((a, b) => a - b);
+  return {
+    score: rubric.length > 0 ? valid.length / rubric.length : 0,
+    covered: valid,
+    feedback,
+  };
+};
+
+// --- Local keyword grader ---
+
+// Words that describe the rubric itself rather than the content an answer should contain
+const RUBRIC_STOP_WORDS = ['触', '述', '説明', '書', '指摘', '言及', '内容', '点', '含', '表現'];
+const KEYWORD_PATTERN = /[\p{Script=Han}々]+|[\p{Script=Katakana}ー]{2,}|「[^」]+」/gu;
+const KEYWORD_COVERAGE_THRESHOLD = 0.6;
+
+// Content words of a rubric point: kanji runs, katakana words and quoted phrases.
+export const extractKeywords = (rubricPoint: string): string[] => {
+  const matches = rubricPoint.match(KEYWORD_PATTERN) ?? [];
+  const keywords = matches
+    .map(m => m.replace(/[「」]/g, ''))
+    .filter(m => m !== '' && !RUBRIC_STOP_WORDS.includes(m));
+  return [...new Set(keywords)];
+};
+
+export const keywordGrader: DescriptiveGrader = {
+  name: 'local',
+  grade: async ({ rubric, answer }) => {
+    const normalizedAnswer = normalizeAnswer(answer, { foldKana: true });
+    const covered: number[] = [];
+    const missed: string[] = [];
+
+    rubric.forEach((point, index) => {
+      const keywords = extractKeywords(point);
+      const hits = keywords.filter(k => normalizedAnswer.includes(normalizeAnswer(k, { foldKana: true }))).length;
+      if (keywords.length > 0 && hits / keywords.length >= KEYWORD_COVERAGE_THRESHOLD) {
+        covered.push(index);
+      } else {
+        missed.push(point);
+      }
+    });
+
+    const feedback = missed.length === 0
+      ? 'すべてのポイントに触れられています。'
+      : `次のポイントを見直してみよう：${missed.map(p => `「${p}」`).join('、')}`;
+    return toResult(rubric, covered, feedback);
+  },
+};
+
+// --- Gemini grader ---
+
+const GEMINI_MODEL = 'gemini-2.5-flash';
+
+const buildPrompt = ({ question, rubric, answer }: DescriptiveGradingRequest): string => [
+  'あなたは中学校の国語教師です。生徒の記述解答を、採点ポイントごとに満たしているかどうか判定してください。',
+  `設問：${question.q}`,
+  `模範解答：${Array.isArray(question.a) ? question.a.join('\n') : question.a}`,
+  '採点ポイント：',
+  ...rubric.map((point, i) => `${i}: ${point}`),
+  `生徒の解答：${answer}`,
+  '満たしている採点ポイントの番号の配列を "covered" に、生徒へのやさしい助言（100字以内）を "feedback" に入れたJSONだけを返してください。',
+].join('\n');
+
+export const createGeminiGrader = (apiKey: string): DescriptiveGrader => ({
+  name: 'gemini',
+  grade: async (request) => {
+    const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${GEMINI_MODEL}:generateContent?key=${encodeURIComponent(apiKey)}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        contents: [{ parts: [{ text: buildPrompt(request) }] }],
+        generationConfig: { responseMimeType: 'application/json' },
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(`Gemini request failed with status ${response.status}`);
+    }
+
+    const data = await response.json();
+    const text: string | undefined = data?.candidates?.[0]?.content?.parts?.[0]?.text;
+    if (!text) {
+      throw new Error('Gemini returned an empty response');
+    }
+    const parsed = JSON.parse(text);
+    const covered = Array.isArray(parsed.covered) ? parsed.covered.map(Number) : [];
+    const feedback = typeof parsed.feedback === 'string' ? parsed.feedback : '';
+    return toResult(request.rubric, covered, feedback);
+  },
+});
+
+// --- Grader selection ---
+
+// process.env.GEMINI_API_KEY is replaced at build time by vite.config.ts; when it is not
+// replaced, `process` does not exist in the browser, hence the try/catch.
+const getGeminiApiKey = (): string | undefined => {
+  try {
+    return process.env.GEMINI_API_KEY || undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+export const getDescriptiveGrader = (): DescriptiveGrader => {
+  const apiKey = getGeminiApiKey();
+  return apiKey ? createGeminiGrader(apiKey) : keywordGrader;
+};
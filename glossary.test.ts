@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { Work } from './types';
+import { buildGlossary, parseNote, searchGlossary } from './glossary';
+
+const work = (id: string, notesByExcerpt: Record<string, string>[]): Work => ({
+  id,
+  author: '',
+  title: `${id}の題`,
+  description: '',
+  excerpts: notesByExcerpt.map((notes, i) => ({ id: i + 1, subtitle: `抜粋${i + 1}`, text: '', notes, questions: [] })),
+});
+
+describe('parseNote', () => {
+  it('reads the headword, reading and definition', () => {
+    expect(parseNote('真心（まごころ）：うそやいつわりのない、本当の気持ち。')).toEqual({
+      headword: '真心',
+      reading: 'まごころ',
+      definition: 'うそやいつわりのない、本当の気持ち。',
+    });
+  });
+
+  it('accepts half-width brackets and colons, and a missing reading', () => {
+    expect(parseNote('しだ(羊歯): シダ植物')).toEqual({ headword: 'しだ', reading: '羊歯', definition: 'シダ植物' });
+    expect(parseNote('しだ：シダ植物')).toEqual({ headword: 'しだ', reading: undefined, definition: 'シダ植物' });
+  });
+
+  it('returns null for notes in another format', () => {
+    expect(parseNote('シダ植物のこと。')).toBeNull();
+  });
+});
+
+describe('buildGlossary', () => {
+  const glossary = buildGlossary([
+    work('a', [{ '1': '真心（まごころ）：本当の気持ち。', '2': '出来心（できごころ）：ふと起こった悪い考え。' }, { '1': '真心：本当の気持ち。' }]),
+    work('b', [{ '1': '真心（まごころ）：誠実な心。', '2': '真心（まごころ）：誠実な心。', '3': '注釈の形式ではない' }]),
+  ]);
+
+  it('makes one entry per headword, sorted by reading', () => {
+    expect(glossary.map(entry => entry.headword)).toEqual(['出来心', '真心']);
+  });
+
+  it('keeps each distinct definition once', () => {
+    expect(glossary[1].definitions).toEqual(['本当の気持ち。', '誠実な心。']);
+  });
+
+  it('lists each excerpt a word is annotated in once', () => {
+    expect(glossary[1].occurrences.map(o => `${o.workId}/${o.excerptId}`)).toEqual(['a/1', 'a/2', 'b/1']);
+  });
+});
+
+describe('searchGlossary', () => {
+  const glossary = buildGlossary([work('a', [{ '1': '真心（まごころ）：本当の気持ち。', '2': '出来心（できごころ）：ふと起こった悪い考え。' }])]);
+
+  it('returns every entry for an empty query', () => {
+    expect(searchGlossary(glossary, ' ')).toHaveLength(2);
+  });
+
+  it('matches readings in katakana', () => {
+    expect(searchGlossary(glossary, 'マゴコロ').map(entry => entry.headword)).toEqual(['真心']);
+  });
+
+  it('matches definitions', () => {
+    expect(searchGlossary(glossary, '考え').map(entry => entry.headword)).toEqual(['出来心']);
+  });
+});
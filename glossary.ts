@@ -0,0 +1,68 @@
+import { Work } from './types';
+import { normalizeAnswer } from './normalization';
+
+// --- Glossary ---
+// Notes are written as "見出し語（よみ）：意味", so across all works they double as a vocabulary list.
+
+export interface ParsedNote {
+  headword: string;
+  reading?: string;
+  definition: string;
+}
+
+export interface GlossaryOccurrence {
+  workId: string;
+  workTitle: string;
+  excerptId: number;
+  excerptSubtitle: string;
+}
+
+export interface GlossaryEntry {
+  headword: string;
+  reading?: string;
+  definitions: string[]; // Distinct wordings, in the order they were found
+  occurrences: GlossaryOccurrence[];
+}
+
+const NOTE_PATTERN = /^(.+?)(?:[（(]([^）)]+)[）)])?[：:]\s*([\s\S]+)$/;
+
+// Returns null for notes that do not follow the "見出し語（よみ）：意味" format.
+export const parseNote = (note: string): ParsedNote | null => {
+  const match = note.trim().match(NOTE_PATTERN);
+  if (!match) return null;
+  return { headword: match[1].trim(), reading: match[2]?.trim(), definition: match[3].trim() };
+};
+
+// One entry per headword across all works, sorted by reading (or headword when there is none).
+export const buildGlossary = (works: Work[]): GlossaryEntry[] => {
+  const entries = new Map<string, GlossaryEntry>();
+
+  works.forEach(work => work.excerpts.forEach(excerpt => {
+    Object.values(excerpt.notes).forEach(note => {
+      const parsed = parseNote(note);
+      if (!parsed) return;
+      const entry = entries.get(parsed.headword) ?? { headword: parsed.headword, reading: parsed.reading, definitions: [], occurrences: [] };
+      entry.reading ??= parsed.reading;
+      if (!entry.definitions.includes(parsed.definition)) entry.definitions.push(parsed.definition);
+      // The same word annotated twice in one excerpt is still one place to look it up
+      if (!entry.occurrences.some(o => o.workId === work.id && o.excerptId === excerpt.id)) {
+        entry.occurrences.push({ workId: work.id, workTitle: work.title, excerptId: excerpt.id, excerptSubtitle: excerpt.subtitle });
+      }
+      entries.set(parsed.headword, entry);
+    });
+  }));
+
+  return [...entries.values()].sort((a, b) => (a.reading ?? a.headword).localeCompare(b.reading ?? b.headword, 'ja'));
+};
+
+const toSearchText = (text: string): string => normalizeAnswer(text, { foldKana: true });
+
+// Matches the query against headwords, readings and definitions, ignoring width, punctuation,
+// spacing and the difference between katakana and hiragana.
+export const searchGlossary = (entries: GlossaryEntry[], query: string): GlossaryEntry[] => {
+  const normalizedQuery = toSearchText(query);
+  if (!normalizedQuery) return entries;
+  return entries.filter(entry =>
+    [entry.headword, entry.reading ?? '', ...entry.definitions].some(text => toSearchText(text).includes(normalizedQuery))
+  );
+};
@@ -0,0 +1,241 @@
+import { Excerpt, AnswerData, Question, UserAnswer, Verdict, RubricAssessment } from './types';
+import { normalizeAnswer, countCharacters } from './normalization';
+
+// --- Grading Engine ---
+// Every screen that shows a score (QuizPage, ResultPage, SubmissionPage, RecordsPage)
+// goes through this module so the same AnswerData always yields the same result.
+
+export type VerdictReason =
+  | 'match'            // The answer matches the expected answer exactly
+  | 'normalized-match' // The answer matches once width, punctuation, spacing (and optionally kana) are normalized
+  | 'unanswered'       // Nothing was entered
+  | 'wrong-choice'     // A different option was selected
+  | 'mismatch'         // The typed text does not match any accepted answer
+  | 'some-blanks-wrong' // Fill-in-the-blank: at least one blank is right, but not all
+  | 'wrong-order'      // Sequence: the items are not in the correct order
+  | 'wrong-span'       // Highlight: the selected span is not the expected one
+  | 'invalid-answer'   // The stored answer has the wrong shape for the question type
+  | 'needs-assessment' // Written answer that cannot be graded automatically
+  | 'out-of-length'    // Written answer shorter or longer than the question's charLimit
+  | 'rubric-assessed'; // Written answer scored by the rubric points it covers
+
+export interface QuestionResult {
+  verdict: Verdict;
+  reason: VerdictReason;
+  isCorrect: boolean;
+  score: number; // 0 to 1
+  userAnswer: UserAnswer;
+  correctAnswer: string | string[];
+}
+
+export interface ScoredQuestion extends QuestionResult {
+  solvedInRound: number | null; // Grading round in which the question was first correct; null if never, or if no history was recorded
+}
+
+export interface ScoreSummary {
+  correct: number;                // Final score: correct answers after all grading rounds
+  points: number;                 // Final score including partial credit (sum of each question's score)
+  total: number;
+  firstTryCorrect: number | null; // Correct on the first grading round; null for records without round history
+  firstTryTotal: number;          // Questions graded automatically, the only ones that can be correct on the first round
+  results: ScoredQuestion[];
+}
+
+const isBlank = (answer: UserAnswer | undefined): boolean => {
+  if (answer === undefined) return true;
+  if (Array.isArray(answer)) return answer.every(a => typeof a !== 'string' || a.trim() === '');
+  return answer.trim() === '';
+};
+
+// Compares a typed answer with an expected one: 'exact' if identical after trimming,
+// 'normalized' if identical after the question's normalization pipeline, otherwise null.
+const compareText = (userText: string, expected: string, question: Question): 'exact' | 'normalized' | null => {
+  if (userText.trim() === expected.trim()) return 'exact';
+  if (normalizeAnswer(userText, question.normalize) === normalizeAnswer(expected, question.normalize)) return 'normalized';
+  return null;
+};
+
+export const isWithinCharLimit = (question: Question, text: string): boolean => {
+  if (!question.charLimit) return true;
+  const length = countCharacters(text);
+  return length >= (question.charLimit.min ?? 0) && length <= question.charLimit.max;
+};
+
+const makeResult = (verdict: Verdict, reason: VerdictReason, score: number, userAnswer: UserAnswer, question: Question): QuestionResult => ({
+  verdict,
+  reason,
+  isCorrect: verdict === 'correct',
+  score,
+  userAnswer,
+  correctAnswer: question.a,
+});
+
+// Share of the rubric points an assessment marks as covered, ignoring indices outside the rubric.
+export const getRubricScore = (question: Question, assessment: RubricAssessment): number => {
+  const rubricLength = question.rubric?.length ?? 0;
+  if (rubricLength === 0) return 0;
+  const covered = new Set(assessment.covered.filter(i => Number.isInteger(i) && i >= 0 && i < rubricLength));
+  return covered.size / rubricLength;
+};
+
+export interface GradingContext {
+  assessment?: RubricAssessment; // 'descriptive' only
+  excerptText?: string;          // 'highlight' only: the text the offsets refer to
+}
+
+// --- Highlight Spans ---
+
+export interface TextSpan {
+  start: number;
+  end: number; // Exclusive
+}
+
+const EDGE_PATTERN = /[\p{P}\s]/u;
+
+// Shrinks a span so it neither starts nor ends with punctuation or whitespace.
+const trimSpan = (text: string, span: TextSpan): TextSpan => {
+  let { start, end } = span;
+  while (start < end && EDGE_PATTERN.test(text[start])) start++;
+  while (end > start && EDGE_PATTERN.test(text[end - 1])) end--;
+  return { start, end };
+};
+
+export const parseSpanAnswer = (answer: UserAnswer | undefined): TextSpan | null => {
+  if (!Array.isArray(answer) || answer.length !== 2) return null;
+  const [start, end] = answer.map(Number);
+  if (!Number.isInteger(start) || !Number.isInteger(end) || start < 0 || end <= start) return null;
+  return { start, end };
+};
+
+export const toSpanAnswer = (span: TextSpan): string[] => [String(span.start), String(span.end)];
+
+// Every occurrence of the expected span text(s) in the excerpt.
+export const findExpectedSpans = (question: Question, text: string): TextSpan[] => {
+  const expected = (Array.isArray(question.a) ? question.a : [question.a]).filter(a => a !== '');
+  return expected.flatMap(phrase => {
+    const spans: TextSpan[] = [];
+    for (let start = text.indexOf(phrase); start !== -1; start = text.indexOf(phrase, start + 1)) {
+      spans.push({ start, end: start + phrase.length });
+    }
+    return spans;
+  });
+};
+
+const spansMatch = (text: string, selected: TextSpan, expected: TextSpan, question: Question): boolean => {
+  const { ignorePunctuation = true, extraChars = 0 } = question.highlightTolerance ?? {};
+  const a = ignorePunctuation ? trimSpan(text, selected) : selected;
+  const b = ignorePunctuation ? trimSpan(text, expected) : expected;
+  return Math.abs(a.start - b.start) <= extraChars && Math.abs(a.end - b.end) <= extraChars;
+};
+
+const gradeMultiSelect = (question: Question, expected: string[], userAnswer: UserAnswer): QuestionResult => {
+  if (!Array.isArray(userAnswer)) return makeResult('incorrect', 'invalid-answer', 0, userAnswer, question);
+  const picked = new Set(userAnswer);
+  const rightPicks = expected.filter(option => picked.has(option)).length;
+  const wrongPicks = picked.size - rightPicks;
+  if (rightPicks === expected.length && wrongPicks === 0) return makeResult('correct', 'match', 1, userAnswer, question);
+  if (question.scoring !== 'partial') return makeResult('incorrect', 'wrong-choice', 0, userAnswer, question);
+
+  // Wrong picks cancel right ones, so selecting every option does not earn credit
+  const score = Math.max(0, (rightPicks - wrongPicks) / expected.length);
+  return makeResult(score > 0 ? 'partial' : 'incorrect', 'wrong-choice', score, userAnswer, question);
+};
+
+export const gradeQuestion = (question: Question, userAnswer: UserAnswer | undefined, context: GradingContext = {}): QuestionResult => {
+  const { assessment, excerptText } = context;
+  if (userAnswer === undefined || isBlank(userAnswer)) {
+    return makeResult('incorrect', 'unanswered', 0, userAnswer ?? '', question);
+  }
+
+  switch (question.type) {
+    case 'multiple-choice': {
+      if (Array.isArray(question.a)) return gradeMultiSelect(question, question.a, userAnswer);
+      if (typeof userAnswer !== 'string') return makeResult('incorrect', 'invalid-answer', 0, userAnswer, question);
+      return userAnswer === question.a
+        ? makeResult('correct', 'match', 1, userAnswer, question)
+        : makeResult('incorrect', 'wrong-choice', 0, userAnswer, question);
+    }
+    case 'extraction': {
+      if (typeof userAnswer !== 'string') return makeResult('incorrect', 'invalid-answer', 0, userAnswer, question);
+      const accepted = Array.isArray(question.a) ? question.a : [question.a];
+      const matches = accepted.map(a => compareText(userAnswer, a, question));
+      if (matches.includes('exact')) return makeResult('correct', 'match', 1, userAnswer, question);
+      if (matches.includes('normalized')) return makeResult('correct', 'normalized-match', 1, userAnswer, question);
+      return makeResult('incorrect', 'mismatch', 0, userAnswer, question);
+    }
+    case 'fill-in-the-blank': {
+      const expected = Array.isArray(question.a) ? question.a : [question.a];
+      if (!Array.isArray(userAnswer) || userAnswer.length !== expected.length) {
+        return makeResult('incorrect', 'invalid-answer', 0, userAnswer, question);
+      }
+      const matches = userAnswer.map((ans, i) => typeof ans === 'string' ? compareText(ans, expected[i], question) : null);
+      const hits = matches.filter(m => m !== null).length;
+      if (hits === expected.length) {
+        return makeResult('correct', matches.every(m => m === 'exact') ? 'match' : 'normalized-match', 1, userAnswer, question);
+      }
+      if (hits === 0) return makeResult('incorrect', 'mismatch', 0, userAnswer, question);
+      return question.scoring === 'partial'
+        ? makeResult('partial', 'some-blanks-wrong', hits / expected.length, userAnswer, question)
+        : makeResult('incorrect', 'some-blanks-wrong', 0, userAnswer, question);
+    }
+    case 'sequence': {
+      const expected = Array.isArray(question.a) ? question.a : [question.a];
+      if (!Array.isArray(userAnswer) || userAnswer.length !== expected.length) {
+        return makeResult('incorrect', 'invalid-answer', 0, userAnswer, question);
+      }
+      if (userAnswer.every((item, i) => item === expected[i])) return makeResult('correct', 'match', 1, userAnswer, question);
+      if (question.scoring !== 'partial' || expected.length < 2) return makeResult('incorrect', 'wrong-order', 0, userAnswer, question);
+
+      // Partial credit: the share of expected adjacent pairs (A directly before B) the student kept together
+      const userPairs = new Set(userAnswer.slice(1).map((item, i) => `${userAnswer[i]}\u0000${item}`));
+      const hits = expected.slice(1).filter((item, i) => userPairs.has(`${expected[i]}\u0000${item}`)).length;
+      const score = hits / (expected.length - 1);
+      return makeResult(score > 0 ? 'partial' : 'incorrect', 'wrong-order', score, userAnswer, question);
+    }
+    case 'highlight': {
+      const selected = parseSpanAnswer(userAnswer);
+      if (!selected || excerptText === undefined || selected.end > excerptText.length) {
+        return makeResult('incorrect', 'invalid-answer', 0, userAnswer, question);
+      }
+      return findExpectedSpans(question, excerptText).some(expected => spansMatch(excerptText, selected, expected, question))
+        ? makeResult('correct', 'match', 1, userAnswer, question)
+        : makeResult('incorrect', 'wrong-span', 0, userAnswer, question);
+    }
+    case 'descriptive': {
+      if (typeof userAnswer !== 'string') return makeResult('incorrect', 'invalid-answer', 0, userAnswer, question);
+      if (assessment && question.rubric && question.rubric.length > 0) {
+        const score = getRubricScore(question, assessment);
+        const verdict: Verdict = score === 1 ? 'correct' : score > 0 ? 'partial' : 'incorrect';
+        return makeResult(verdict, 'rubric-assessed', score, userAnswer, question);
+      }
+      return makeResult('pending', isWithinCharLimit(question, userAnswer) ? 'needs-assessment' : 'out-of-length', 0, userAnswer, question);
+    }
+    default:
+      return makeResult('incorrect', 'invalid-answer', 0, userAnswer, question);
+  }
+};
+
+export const getSolvedRound = (answerData: AnswerData, questionIndex: number): number | null => {
+  const history = answerData.rounds?.[questionIndex];
+  if (!history) return null;
+  const solvedAt = history.findIndex(round => round.verdict === 'correct');
+  return solvedAt === -1 ? null : solvedAt + 1;
+};
+
+// Scores an attempt at an excerpt, or at anything else made of questions such as a vocabulary
+// drill, which has no text.
+export const getScore = (excerpt: Pick<Excerpt, 'questions'> & { text?: string }, answerData: AnswerData): ScoreSummary => {
+  if (!excerpt || !answerData) return { correct: 0, points: 0, total: 0, firstTryCorrect: null, firstTryTotal: 0, results: [] };
+
+  const results = excerpt.questions.map((q, index) => ({
+    ...gradeQuestion(q, answerData.answers[index], { assessment: answerData.assessments?.[index], excerptText: excerpt.text }),
+    solvedInRound: getSolvedRound(answerData, index),
+  }));
+  const correct = results.filter(r => r.isCorrect).length;
+  const points = results.reduce((sum, r) => sum + r.score, 0);
+  // Written answers are handed in for assessment rather than graded in rounds
+  const autoGraded = results.filter((_, index) => excerpt.questions[index].type !== 'descriptive');
+  const firstTryCorrect = answerData.rounds ? autoGraded.filter(r => r.solvedInRound === 1).length : null;
+
+  return { correct, points, total: excerpt.questions.length, firstTryCorrect, firstTryTotal: autoGraded.length, results };
+};
@@ -0,0 +1,37 @@
+import { NormalizeOptions } from './types';
+
+// --- Answer Normalization ---
+// Applied to both the student's answer and Question.a before text answers are compared,
+// so that width, punctuation and spacing differences do not count as mistakes.
+
+export const defaultNormalizeOptions: Required<NormalizeOptions> = {
+  nfkc: true,
+  stripPunctuation: true,
+  stripWhitespace: true,
+  foldKana: false,
+};
+
+const PUNCTUATION_PATTERN = /\p{P}/gu;
+const WHITESPACE_PATTERN = /\s/gu;
+const KATAKANA_PATTERN = /[ァ-ヶ]/g;
+
+const katakanaToHiragana = (text: string): string =>
+  text.replace(KATAKANA_PATTERN, ch => String.fromCharCode(ch.charCodeAt(0) - 0x60));
+
+export const resolveNormalizeOptions = (overrides?: NormalizeOptions): Required<NormalizeOptions> => ({
+  ...defaultNormalizeOptions,
+  ...overrides,
+});
+
+export const normalizeAnswer = (text: string, overrides?: NormalizeOptions): string => {
+  const options = resolveNormalizeOptions(overrides);
+  let result = text;
+  if (options.nfkc) result = result.normalize('NFKC');
+  if (options.stripPunctuation) result = result.replace(PUNCTUATION_PATTERN, '');
+  if (options.stripWhitespace) result = result.replace(WHITESPACE_PATTERN, '');
+  if (options.foldKana) result = katakanaToHiragana(result);
+  return result.trim();
+};
+
+// Character count used for written answers: every character except line breaks.
+export const countCharacters = (text: string): number => Array.from(text.replace(/\r?\n/g, '')).length;
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { AnswerData, UserAnswers } from './types';
+import { CURRENT_STORAGE_VERSION } from './answerStorage';
+import { createRecordsFile, mergeAnswers, parseRecordsFile, previewMerge } from './recordTransfer';
+
+const attempt = (timestamp: number): AnswerData => ({ answers: { '0': 'ごん' }, studyTime: 30, timestamp });
+
+const ANSWERS: UserAnswers = { gongitsune: { '1': [attempt(1000), attempt(2000)] } };
+
+describe('parseRecordsFile', () => {
+  it('reads back what createRecordsFile wrote', async () => {
+    const file = await createRecordsFile(ANSWERS, '1番 山田');
+    const parsed = await parseRecordsFile(JSON.stringify(file, null, 2));
+    expect(parsed).toMatchObject({ ok: true, answers: ANSWERS, invalidCount: 0 });
+    expect(parsed.ok === true && parsed.file.studentName).toBe('1番 山田');
+  });
+
+  it('does not depend on the key order of the data', async () => {
+    const file = await createRecordsFile({ a: { '1': [attempt(1)] }, b: { '1': [attempt(2)] } });
+    const reordered = { ...file, data: { b: file.data.b, a: file.data.a } };
+    expect((await parseRecordsFile(JSON.stringify(reordered))).ok).toBe(true);
+  });
+
+  it('rejects a file edited after it was written', async () => {
+    const file = await createRecordsFile(ANSWERS);
+    file.data.gongitsune['1'][0].studyTime = 1;
+    expect(await parseRecordsFile(JSON.stringify(file))).toEqual({ ok: false, problem: 'checksum-mismatch' });
+  });
+
+  it('rejects text that is not JSON', async () => {
+    expect(await parseRecordsFile('{')).toEqual({ ok: false, problem: 'not-json' });
+  });
+
+  it('rejects JSON that is not a records file', async () => {
+    expect(await parseRecordsFile('null')).toEqual({ ok: false, problem: 'wrong-format' });
+    expect(await parseRecordsFile(JSON.stringify({ gongitsune: {} }))).toEqual({ ok: false, problem: 'wrong-format' });
+  });
+
+  it('rejects a file from a newer storage version', async () => {
+    const file = await createRecordsFile(ANSWERS);
+    expect(await parseRecordsFile(JSON.stringify({ ...file, storageVersion: CURRENT_STORAGE_VERSION + 1 }))).toEqual({ ok: false, problem: 'newer-version' });
+  });
+
+  it('counts the attempts it could not read', async () => {
+    const file = await createRecordsFile({ gongitsune: { '1': [attempt(1000), 'oops' as unknown as AnswerData] } });
+    expect(await parseRecordsFile(JSON.stringify(file))).toMatchObject({ ok: true, answers: { gongitsune: { '1': [attempt(1000)] } }, invalidCount: 1 });
+  });
+});
+
+describe('previewMerge', () => {
+  it('lists only attempts with a new timestamp', () => {
+    const incoming: UserAnswers = { gongitsune: { '1': [attempt(2000), attempt(3000)], '2': [attempt(1000)] } };
+    expect(previewMerge(ANSWERS, incoming)).toEqual({
+      added: [
+        { workId: 'gongitsune', excerptId: '1', attempts: [attempt(3000)] },
+        { workId: 'gongitsune', excerptId: '2', attempts: [attempt(1000)] },
+      ],
+      addedCount: 2,
+      duplicateCount: 1,
+    });
+  });
+
+  it('adds nothing for records already present', () => {
+    expect(previewMerge(ANSWERS, ANSWERS)).toEqual({ added: [], addedCount: 0, duplicateCount: 2 });
+  });
+
+  it('counts an attempt repeated within the incoming records once', () => {
+    expect(previewMerge({}, { gongitsune: { '1': [attempt(1000), attempt(1000)] } }).addedCount).toBe(1);
+  });
+});
+
+describe('mergeAnswers', () => {
+  it('adds the new attempts in timestamp order', () => {
+    const merged = mergeAnswers(ANSWERS, { gongitsune: { '1': [attempt(1500), attempt(1000)] }, melos: { '1': [attempt(5)] } });
+    expect(merged.gongitsune['1'].map(a => a.timestamp)).toEqual([1000, 1500, 2000]);
+    expect(merged.melos['1']).toEqual([attempt(5)]);
+  });
+
+  it('leaves the current records unchanged', () => {
+    mergeAnswers(ANSWERS, { gongitsune: { '1': [attempt(1500)] } });
+    expect(ANSWERS.gongitsune['1']).toHaveLength(2);
+  });
+});
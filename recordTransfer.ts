@@ -0,0 +1,128 @@
+import { AnswerData, UserAnswers } from './types';
+import { CURRENT_STORAGE_VERSION, migrateAnswerStore, validateAnswerStore } from './answerStorage';
+
+// --- Record Export and Import ---
+// All UserAnswers can be saved to a JSON file and merged back in on another device or browser.
+// The file carries the app and storage versions and a SHA-256 checksum of its data, so files that
+// were damaged or edited by hand are rejected instead of being merged.
+
+const FILE_FORMAT = 'dokkai-records';
+
+export interface RecordsFile {
+  format: typeof FILE_FORMAT;
+  appVersion: string;
+  storageVersion: number;
+  exportedAt: number;
+  studentName?: string; // As entered on the submission page, so teachers can tell files apart
+  checksum: string; // SHA-256 (hex) of the canonical JSON of data
+  data: UserAnswers;
+}
+
+export type RecordsFileProblem = 'not-json' | 'wrong-format' | 'checksum-mismatch' | 'newer-version' | 'invalid-data';
+
+export type ParsedRecordsFile =
+  | { ok: true; file: RecordsFile; answers: UserAnswers; invalidCount: number }
+  | { ok: false; problem: RecordsFileProblem };
+
+export interface MergeGroup {
+  workId: string;
+  excerptId: string;
+  attempts: AnswerData[]; // The attempts the import would add
+}
+
+export interface MergePreview {
+  added: MergeGroup[];
+  addedCount: number;
+  duplicateCount: number; // Attempts already present (same timestamp), which are skipped
+}
+
+const getAppVersion = (): string => {
+  try {
+    return process.env.APP_VERSION || 'unknown';
+  } catch {
+    return 'unknown';
+  }
+};
+
+// JSON with object keys sorted, so the checksum does not depend on key order.
+const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+const sha256 = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const createRecordsFile = async (answers: UserAnswers, studentName?: string): Promise<RecordsFile> => ({
+  format: FILE_FORMAT,
+  appVersion: getAppVersion(),
+  storageVersion: CURRENT_STORAGE_VERSION,
+  exportedAt: Date.now(),
+  ...(studentName ? { studentName } : {}),
+  checksum: await sha256(canonicalJson(answers)),
+  data: answers,
+});
+
+export const parseRecordsFile = async (text: string): Promise<ParsedRecordsFile> => {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    return { ok: false, problem: 'not-json' };
+  }
+
+  if (typeof file !== 'object' || file === null) return { ok: false, problem: 'wrong-format' };
+  const candidate = file as Partial<RecordsFile>;
+  if (candidate.format !== FILE_FORMAT || typeof candidate.checksum !== 'string' || !Number.isInteger(candidate.storageVersion) || !('data' in candidate)) {
+    return { ok: false, problem: 'wrong-format' };
+  }
+  if (await sha256(canonicalJson(candidate.data)) !== candidate.checksum) return { ok: false, problem: 'checksum-mismatch' };
+  if ((candidate.storageVersion as number) > CURRENT_STORAGE_VERSION) return { ok: false, problem: 'newer-version' };
+
+  let migrated: unknown;
+  try {
+    migrated = migrateAnswerStore(candidate.data, candidate.storageVersion as number);
+  } catch {
+    return { ok: false, problem: 'invalid-data' };
+  }
+  const { answers, invalid } = validateAnswerStore(migrated);
+  return { ok: true, file: candidate as RecordsFile, answers, invalidCount: invalid.length };
+};
+
+// What merging incoming into current would add. Attempts are identified by their timestamp
+// within an excerpt, so importing the same file twice adds nothing the second time.
+export const previewMerge = (current: UserAnswers, incoming: UserAnswers): MergePreview => {
+  const added: MergeGroup[] = [];
+  let duplicateCount = 0;
+  Object.entries(incoming).forEach(([workId, excerpts]) => {
+    Object.entries(excerpts).forEach(([excerptId, attempts]) => {
+      const known = new Set((current[workId]?.[excerptId] ?? []).map(a => a.timestamp));
+      const newAttempts = attempts.filter(a => {
+        if (known.has(a.timestamp)) return false;
+        known.add(a.timestamp);
+        return true;
+      });
+      duplicateCount += attempts.length - newAttempts.length;
+      if (newAttempts.length > 0) added.push({ workId, excerptId, attempts: newAttempts });
+    });
+  });
+  return { added, addedCount: added.reduce((sum, group) => sum + group.attempts.length, 0), duplicateCount };
+};
+
+export const mergeAnswers = (current: UserAnswers, incoming: UserAnswers): UserAnswers => {
+  const merged: UserAnswers = { ...current };
+  previewMerge(current, incoming).added.forEach(({ workId, excerptId, attempts }) => {
+    const existing = merged[workId]?.[excerptId] ?? [];
+    merged[workId] = {
+      ...merged[workId],
+      [excerptId]: [...existing, ...attempts].sort((a, b) => a.timestamp - b.timestamp),
+    };
+  });
+  return merged;
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { AnswerData, UserAnswers, Work } from './types';
+import { buildAttemptsCsv, collectCsvAttempts, CSV_BOM } from './recordsCsv';
+
+const WORK: Work = {
+  id: 'w',
+  author: '',
+  title: 'ごん, "きつね"',
+  description: '',
+  excerpts: [{
+    id: 1,
+    subtitle: '抜粋\n一',
+    text: '',
+    notes: {},
+    questions: [
+      { type: 'multiple-choice', q: 'q', options: ['ごん', '兵十'], a: 'ごん' },
+      { type: 'multiple-choice', q: 'q', options: ['ごん', '兵十'], a: '兵十' },
+    ],
+  }],
+};
+
+const at = (day: number, hour = 10) => new Date(2026, 3, day, hour, 5).getTime();
+
+const attempt = (timestamp: number, answers: AnswerData['answers'] = { '0': 'ごん', '1': 'ごん' }): AnswerData => ({ answers, studyTime: 90, timestamp });
+
+const lines = (csv: string) => csv.slice(CSV_BOM.length).split('\r\n');
+
+describe('collectCsvAttempts', () => {
+  const answers: UserAnswers = {
+    w: { '1': [attempt(at(1)), attempt(at(2)), attempt(at(3, 23))], '9': [attempt(at(2))] },
+    removed: { '1': [attempt(at(2))] },
+  };
+
+  it('leaves out attempts at works or excerpts that are not loaded', () => {
+    expect(collectCsvAttempts(answers, [WORK])).toHaveLength(3);
+  });
+
+  it('keeps attempts from the start of the first day to the end of the last', () => {
+    const range = { from: new Date(2026, 3, 2, 12), to: new Date(2026, 3, 3) };
+    expect(collectCsvAttempts(answers, [WORK], range).map(({ attempt }) => attempt.timestamp)).toEqual([at(2), at(3, 23)]);
+  });
+});
+
+describe('buildAttemptsCsv', () => {
+  it('starts with a byte order mark and ends lines with CRLF', () => {
+    const csv = buildAttemptsCsv({}, [WORK]);
+    expect(csv.startsWith(CSV_BOM)).toBe(true);
+    expect(lines(csv)).toEqual(['作品,抜粋,日時,学習時間（秒）,正解数,問題数,得点', '']);
+  });
+
+  it('writes one row per attempt in chronological order, with a column per question', () => {
+    const csv = buildAttemptsCsv({ w: { '1': [attempt(at(2), { '0': 'ごん' }), attempt(at(1))] } }, [WORK]);
+    expect(lines(csv)).toEqual([
+      '作品,抜粋,日時,学習時間（秒）,正解数,問題数,得点,問1,問2',
+      '"ごん, ""きつね""","抜粋\n一",2026/04/01 10:05,90,1,2,1,正解,不正解',
+      '"ごん, ""きつね""","抜粋\n一",2026/04/02 10:05,90,1,2,1,正解,未解答',
+      '',
+    ]);
+  });
+
+  it('counts the same attempts as collectCsvAttempts', () => {
+    const answers: UserAnswers = { w: { '1': [attempt(at(1))], '9': [attempt(at(1))] }, removed: { '1': [attempt(at(1))] } };
+    expect(lines(buildAttemptsCsv(answers, [WORK])).length - 2).toBe(collectCsvAttempts(answers, [WORK]).length);
+  });
+});
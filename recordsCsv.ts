@@ -0,0 +1,107 @@
+import { AnswerData, Excerpt, UserAnswers, Work } from './types';
+import { getScore, QuestionResult } from './grading';
+import { findAttemptQuestions } from './vocabulary';
+
+// --- CSV Export of Attempts ---
+// One row per attempt, for teachers to collect in a spreadsheet. The file starts with a UTF-8
+// byte order mark, without which Excel reads the Japanese text as Shift_JIS.
+
+export const CSV_BOM = '\uFEFF';
+
+export interface DateRange {
+  from?: Date; // Inclusive, from the start of the day
+  to?: Date;   // Inclusive, to the end of the day
+}
+
+const escapeCsvField = (value: string | number): string => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsvLine = (fields: (string | number)[]): string => fields.map(escapeCsvField).join(',');
+
+const pad = (n: number): string => String(n).padStart(2, '0');
+
+const formatDateTime = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}/${pad(date.getMonth() + 1)}/${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+const verdictLabel = (result: QuestionResult): string => {
+  if (result.reason === 'unanswered') return '未解答';
+  switch (result.verdict) {
+    case 'correct': return '正解';
+    case 'partial': return '部分正解';
+    case 'pending': return '採点待ち';
+    default: return '不正解';
+  }
+};
+
+const isInDateRange = (timestamp: number, { from, to }: DateRange): boolean => {
+  if (from) {
+    const start = new Date(from.getFullYear(), from.getMonth(), from.getDate()).getTime();
+    if (timestamp < start) return false;
+  }
+  if (to) {
+    const end = new Date(to.getFullYear(), to.getMonth(), to.getDate() + 1).getTime();
+    if (timestamp >= end) return false;
+  }
+  return true;
+};
+
+export interface CsvAttempt {
+  work: Work;
+  questionSet: Pick<Excerpt, 'subtitle' | 'questions'> & { text?: string }; // As found by findAttemptQuestions
+  attempt: AnswerData;
+}
+
+// The attempts buildAttemptsCsv writes a row for. Attempts at works that are not in works (removed,
+// or not loaded) or at excerpts they no longer have are left out.
+export const collectCsvAttempts = (answers: UserAnswers, works: Work[], range: DateRange = {}): CsvAttempt[] => {
+  const collected: CsvAttempt[] = [];
+  Object.entries(answers).forEach(([workId, excerpts]) => {
+    const work = works.find(w => w.id === workId);
+    if (!work) return;
+    Object.entries(excerpts).forEach(([excerptId, attempts]) => {
+      const questionSet = findAttemptQuestions(work, excerptId);
+      if (!questionSet) return;
+      attempts
+        .filter(attempt => isInDateRange(attempt.timestamp, range))
+        .forEach(attempt => collected.push({ work, questionSet, attempt }));
+    });
+  });
+  return collected;
+};
+
+// Rows are in chronological order.
+export const buildAttemptsCsv = (answers: UserAnswers, works: Work[], range: DateRange = {}): string => {
+  const rows = collectCsvAttempts(answers, works, range).map(({ work, questionSet, attempt }) => {
+    const score = getScore(questionSet, attempt);
+    return {
+      workTitle: work.title,
+      excerptSubtitle: questionSet.subtitle,
+      attempt,
+      correct: score.correct,
+      total: score.total,
+      points: Math.round(score.points * 10) / 10,
+      verdicts: score.results.map(verdictLabel),
+    };
+  });
+  rows.sort((a, b) => a.attempt.timestamp - b.attempt.timestamp);
+
+  const questionColumns = Math.max(0, ...rows.map(row => row.verdicts.length));
+  const header = ['作品', '抜粋', '日時', '学習時間（秒）', '正解数', '問題数', '得点',
+    ...Array.from({ length: questionColumns }, (_, i) => `問${i + 1}`)];
+  const lines = rows.map(row => toCsvLine([
+    row.workTitle,
+    row.excerptSubtitle,
+    formatDateTime(row.attempt.timestamp),
+    row.attempt.studyTime,
+    row.correct,
+    row.total,
+    row.points,
+    ...row.verdicts,
+  ]));
+
+  return CSV_BOM + [toCsvLine(header), ...lines].join('\r\n') + '\r\n';
+};
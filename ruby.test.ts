@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { Excerpt } from './types';
+import { parseRubyMarkup, resolveExcerptRuby, selectFurigana } from './ruby';
+
+const excerpt = (text: string, furigana?: Excerpt['furigana']): Excerpt => ({ id: 1, subtitle: '', text, notes: {}, questions: [], furigana });
+
+describe('parseRubyMarkup', () => {
+  it('attaches an implicit reading to the run of kanji before it', () => {
+    expect(parseRubyMarkup('隴西の李徴《りちょう》は')).toEqual({
+      text: '隴西の李徴は',
+      furigana: [{ start: 3, end: 5, reading: 'りちょう' }],
+    });
+  });
+
+  it('starts the base at ｜ when one is given', () => {
+    expect(parseRubyMarkup('性、｜狷介《けんかい》、')).toEqual({
+      text: '性、狷介、',
+      furigana: [{ start: 2, end: 4, reading: 'けんかい' }],
+    });
+  });
+
+  it('accepts a half-width bar', () => {
+    expect(parseRubyMarkup('|博学才穎《はくがくさいえい》').text).toBe('博学才穎');
+  });
+
+  it('gives each reading offsets into the text without markup', () => {
+    const { text, furigana } = parseRubyMarkup('虎《とら》と李徴《りちょう》');
+    expect(text).toBe('虎と李徴');
+    expect(furigana.map(f => text.slice(f.start, f.end))).toEqual(['虎', '李徴']);
+  });
+
+  it('leaves text without markup unchanged', () => {
+    expect(parseRubyMarkup('山月記')).toEqual({ text: '山月記', furigana: [] });
+  });
+});
+
+describe('resolveExcerptRuby', () => {
+  it('returns the excerpt itself when there is no markup', () => {
+    const plain = excerpt('山月記');
+    expect(resolveExcerptRuby(plain)).toBe(plain);
+  });
+
+  it('keeps furigana that were already listed, in text order', () => {
+    const resolved = resolveExcerptRuby(excerpt('山月記の李徴《りちょう》', [{ start: 0, end: 3, reading: 'さんげつき' }]));
+    expect(resolved.text).toBe('山月記の李徴');
+    expect(resolved.furigana).toEqual([
+      { start: 0, end: 3, reading: 'さんげつき' },
+      { start: 4, end: 6, reading: 'りちょう' },
+    ]);
+  });
+});
+
+describe('selectFurigana', () => {
+  const { text, furigana } = parseRubyMarkup('李徴《りちょう》と袁傪《えんさん》と李徴《りちょう》');
+
+  it('shows every reading in always mode', () => {
+    expect(selectFurigana(text, furigana, 'always')).toHaveLength(3);
+  });
+
+  it('shows no reading in never mode', () => {
+    expect(selectFurigana(text, furigana, 'never')).toEqual([]);
+  });
+
+  it('shows a word only where it first appears in first mode', () => {
+    expect(selectFurigana(text, furigana, 'first').map(f => f.start)).toEqual([0, 3]);
+  });
+
+  it('treats the same characters with another reading as another word', () => {
+    const marked = parseRubyMarkup('今日《きょう》と今日《こんにち》');
+    expect(selectFurigana(marked.text, marked.furigana, 'first')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,58 @@
+import { Excerpt, Furigana, Work } from './types';
+
+// --- Furigana ---
+// Excerpt texts may mark readings inline with Aozora Bunko's ruby notation: ｜漢字《かんじ》, or
+// 漢字《かんじ》 when the reading belongs to the run of kanji right before 《. The markup is resolved
+// when the work is loaded, so the app only ever sees plain text plus Excerpt.furigana spans, and
+// character offsets (highlight answers, character counts) are unaffected by readings.
+
+export type FuriganaMode = 'always' | 'first' | 'never'; // 'first': only the first occurrence of each word
+
+const RUBY_MARKUP = /(?:[｜|]([^｜|《》]+)|([々〆〇ヶ仝㐀-䶿一-鿿豈-﫿]+|[ァ-ヺー]+|[ぁ-ゖゝゞ]+|[Ａ-Ｚａ-ｚ０-９]+|[A-Za-z0-9]+))《([^《》]+)》/g;
+
+export const parseRubyMarkup = (markup: string): { text: string; furigana: Furigana[] } => {
+  let text = '';
+  const furigana: Furigana[] = [];
+  let lastIndex = 0;
+  for (const match of markup.matchAll(RUBY_MARKUP)) {
+    const base = match[1] ?? match[2];
+    text += markup.slice(lastIndex, match.index);
+    furigana.push({ start: text.length, end: text.length + base.length, reading: match[3] });
+    text += base;
+    lastIndex = match.index + match[0].length;
+  }
+  text += markup.slice(lastIndex);
+  return { text, furigana };
+};
+
+// Moves ruby markup out of the excerpt text into furigana. Spans already listed in
+// excerpt.furigana refer to the text without markup and are kept.
+export const resolveExcerptRuby = (excerpt: Excerpt): Excerpt => {
+  const { text, furigana } = parseRubyMarkup(excerpt.text);
+  if (furigana.length === 0) return excerpt;
+  return {
+    ...excerpt,
+    text,
+    furigana: [...(excerpt.furigana ?? []), ...furigana].sort((a, b) => a.start - b.start),
+  };
+};
+
+export const resolveWorkRuby = (work: Work): Work => ({
+  ...work,
+  excerpts: work.excerpts.map(resolveExcerptRuby),
+});
+
+// The spans to display in the given mode. In 'first' mode a word (the same characters with the
+// same reading) is shown with its reading only where it first appears.
+export const selectFurigana = (text: string, furigana: Furigana[] = [], mode: FuriganaMode): Furigana[] => {
+  if (mode === 'never') return [];
+  const sorted = [...furigana].sort((a, b) => a.start - b.start);
+  if (mode === 'always') return sorted;
+  const seen = new Set<string>();
+  return sorted.filter(f => {
+    const word = `${text.slice(f.start, f.end)}《${f.reading}》`;
+    if (seen.has(word)) return false;
+    seen.add(word);
+    return true;
+  });
+};
@@ -0,0 +1,69 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { parseAozora, parseParagraphRange, buildExcerpt, ParagraphRange } from '../content/aozora';
+import { Work } from '../types';
+
+// Imports an Aozora Bunko text (.txt with ruby notation, or .html/.xhtml) downloaded to disk.
+// Without ranges, lists the paragraphs of the body with their numbers. With ranges, prints one
+// Excerpt skeleton per range (empty subtitle, notes and questions) as JSON, or a whole work when
+// --work is given, ready to save in content/works/ and fill in.
+// Usage: npm run import-aozora -- <file> [<first>-<last> ...] [--work <workId>]
+
+const USAGE = 'Usage: npm run import-aozora -- <file> [<first>-<last> ...] [--work <workId>]';
+
+// Aozora Bunko files are Shift_JIS; accept UTF-8 too, for files that were converted.
+const decode = (buffer: Buffer): string => {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder('shift_jis').decode(buffer);
+  }
+};
+
+const args = process.argv.slice(2);
+const workFlag = args.indexOf('--work');
+const workId = workFlag === -1 ? undefined : args[workFlag + 1];
+const [file, ...rangeSpecs] = args.filter((_, i) => workFlag === -1 || (i !== workFlag && i !== workFlag + 1));
+
+if (!file || (workFlag !== -1 && !workId)) {
+  console.error(USAGE);
+  process.exit(1);
+}
+
+const ranges = rangeSpecs.map(spec => ({ spec, range: parseParagraphRange(spec) }));
+const invalidRange = ranges.find(r => r.range === null);
+if (invalidRange) {
+  console.error(`Invalid paragraph range: ${invalidRange.spec}`);
+  console.error(USAGE);
+  process.exit(1);
+}
+
+let source: string;
+try {
+  source = decode(readFileSync(file));
+} catch (error) {
+  console.error(`Failed to read ${file}: ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(1);
+}
+
+const aozora = parseAozora(source, path.basename(file));
+aozora.warnings.forEach(warning => console.error(`Warning: ${warning}`));
+
+if (ranges.length === 0) {
+  console.log(`${aozora.title} / ${aozora.author}: ${aozora.paragraphs.length} paragraphs\n`);
+  aozora.paragraphs.forEach((p, i) => {
+    const preview = p.text.length > 40 ? `${p.text.slice(0, 40)}…` : p.text;
+    console.log(`${String(i + 1).padStart(4)}  ${preview}`);
+  });
+} else {
+  try {
+    const excerpts = ranges.map(({ range }, i) => buildExcerpt(aozora.paragraphs, range as ParagraphRange, i + 1));
+    const output: Work | typeof excerpts = workId
+      ? { id: workId, author: aozora.author, title: aozora.title, description: '', excerpts }
+      : excerpts;
+    console.log(JSON.stringify(output, null, 2));
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
@@ -0,0 +1,26 @@
+import { loadWorks } from '../content/contentFiles';
+import { renumberNotes } from '../annotations';
+
+// Prints an excerpt's text and notes with ※N markers renumbered 1, 2, ... in reading order,
+// ready to paste back into its content/works/ file after editing.
+// Usage: npm run renumber-notes -- <workId> <excerptId>
+
+const [workId, excerptId] = process.argv.slice(2);
+
+const work = loadWorks().find(w => w.id === workId);
+const excerpt = work?.excerpts.find(e => e.id.toString() === excerptId);
+
+if (!work || !excerpt) {
+  console.error(`Excerpt not found: ${workId ?? '(no work id)'} / ${excerptId ?? '(no excerpt id)'}`);
+  console.error('Usage: npm run renumber-notes -- <workId> <excerptId>');
+  process.exit(1);
+}
+
+const { text, notes } = renumberNotes(excerpt.text, excerpt.notes);
+
+if (text === excerpt.text && JSON.stringify(notes) === JSON.stringify(excerpt.notes)) {
+  console.log('Markers and notes are already numbered consistently.');
+} else {
+  console.log(`text: ${JSON.stringify(text)},`);
+  console.log(`notes: ${JSON.stringify(notes, null, 2)},`);
+}
@@ -0,0 +1,42 @@
+import { readWorkFiles } from '../content/contentFiles';
+import { validateWorks, ContentIssue } from '../contentValidation';
+import { resolveWorkRuby } from '../ruby';
+
+// Reports work files in content/works/ that do not match the schema, and inconsistencies
+// in the ones that do. Exits with status 1 if anything is found.
+// Usage: npm run validate:content
+
+const formatLocation = (issue: ContentIssue): string => {
+  const parts = [issue.workId];
+  if (issue.excerptId !== undefined) parts.push(`excerpt ${issue.excerptId}`);
+  if (issue.questionIndex !== undefined) parts.push(`question ${issue.questionIndex + 1}`);
+  return parts.join(' / ');
+};
+
+const files = readWorkFiles();
+const invalidFiles = files.filter(f => f.errors.length > 0);
+// Checked as the app sees them, with ruby markup resolved into furigana
+const works = files.flatMap(f => f.work ? [resolveWorkRuby(f.work)] : []);
+
+invalidFiles.forEach(f => {
+  console.log(`\n${f.file} does not match the work schema`);
+  f.errors.forEach(error => console.log(`  ${error}`));
+});
+if (invalidFiles.length > 0) process.exitCode = 1;
+
+const issues = validateWorks(works);
+
+if (issues.length === 0) {
+  console.log(`No problems found in ${works.length} works.`);
+} else {
+  const byWork = new Map<string, ContentIssue[]>();
+  issues.forEach(issue => byWork.set(issue.workId, [...(byWork.get(issue.workId) ?? []), issue]));
+
+  byWork.forEach((workIssues, workId) => {
+    console.log(`\n${workId} (${workIssues.length})`);
+    workIssues.forEach(issue => console.log(`  [${issue.code}] ${formatLocation(issue)}: ${issue.message}`));
+  });
+
+  console.log(`\n${issues.length} problem(s) found.`);
+  process.exitCode = 1;
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { createSubmissionCode, extractSubmissionCodes, Submission, verifySubmissionCode } from './submissionCode';
+
+const SUBMISSION: Submission = {
+  studentName: '1番 山田',
+  workId: 'gongitsune',
+  excerptId: '1',
+  points: 3.5,
+  total: 5,
+  studyTime: 240,
+  timestamp: 1760000000000,
+};
+
+const KEY = '3年2組';
+
+// A code whose payload is replaced, keeping the original signature
+const withPayload = (code: string, fields: unknown[]): string => {
+  const [prefix, , signature] = code.split('.');
+  const payload = btoa(String.fromCharCode(...new TextEncoder().encode(JSON.stringify(fields)))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  return `${prefix}.${payload}.${signature}`;
+};
+
+describe('verifySubmissionCode', () => {
+  it('reads back what createSubmissionCode wrote', async () => {
+    const code = await createSubmissionCode(SUBMISSION, KEY);
+    expect(code).toMatch(/^DK1\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]{16}$/);
+    expect(await verifySubmissionCode(`  ${code}\n`, KEY)).toEqual({ ok: true, submission: SUBMISSION });
+  });
+
+  it('keeps points to one decimal place and the time to the second', async () => {
+    const code = await createSubmissionCode({ ...SUBMISSION, points: 3.33, timestamp: 1760000000999 }, KEY);
+    expect(await verifySubmissionCode(code, KEY)).toMatchObject({ ok: true, submission: { points: 3.3, timestamp: 1760000000000 } });
+  });
+
+  it('rejects a code made with another class key', async () => {
+    const code = await createSubmissionCode(SUBMISSION, KEY);
+    expect(await verifySubmissionCode(code, '3年1組')).toEqual({ ok: false, problem: 'bad-signature' });
+  });
+
+  it('rejects a code whose result was changed', async () => {
+    const code = await createSubmissionCode(SUBMISSION, KEY);
+    const tampered = withPayload(code, ['gongitsune', '1', 50, 5, 240, 1760000000, '1番 山田']);
+    expect(await verifySubmissionCode(tampered, KEY)).toEqual({ ok: false, problem: 'bad-signature' });
+  });
+
+  it('rejects text that is not a code', async () => {
+    expect(await verifySubmissionCode('DK1.abc', KEY)).toEqual({ ok: false, problem: 'malformed' });
+    expect(await verifySubmissionCode('XX1.abc.def', KEY)).toEqual({ ok: false, problem: 'malformed' });
+    expect(await verifySubmissionCode('DK1.!!!.def', KEY)).toEqual({ ok: false, problem: 'malformed' });
+  });
+
+  it('rejects a payload with missing or mistyped fields', async () => {
+    const code = await createSubmissionCode(SUBMISSION, KEY);
+    expect(await verifySubmissionCode(withPayload(code, ['gongitsune', '1', 35, 5, 240]), KEY)).toEqual({ ok: false, problem: 'malformed' });
+    expect(await verifySubmissionCode(withPayload(code, ['gongitsune', '1', '35', 5, 240, 1760000000, '']), KEY)).toEqual({ ok: false, problem: 'malformed' });
+  });
+
+  it('reports codes from another format version', async () => {
+    const code = await createSubmissionCode(SUBMISSION, KEY);
+    expect(await verifySubmissionCode(code.replace(/^DK1/, 'DK2'), KEY)).toEqual({ ok: false, problem: 'unsupported-version' });
+  });
+});
+
+describe('extractSubmissionCodes', () => {
+  it('finds every code in pasted text', async () => {
+    const first = await createSubmissionCode(SUBMISSION, KEY);
+    const second = await createSubmissionCode({ ...SUBMISSION, excerptId: '2' }, KEY);
+    expect(extractSubmissionCodes(`山田: ${first}\n${second}, DK1.only-two`)).toEqual([first, second]);
+  });
+
+  it('returns nothing for text without codes', () => {
+    expect(extractSubmissionCodes('提出します')).toEqual([]);
+  });
+});
@@ -0,0 +1,86 @@
+// --- Submission Codes ---
+// A compact code a student sends instead of a screenshot of the submission page:
+//   DK1.<payload>.<signature>
+// The payload is base64url JSON of the result, and the signature is an HMAC-SHA256 of the prefix
+// and payload with the class key, truncated to 96 bits. Anyone holding the class key could still
+// forge a code, so it shows that a code was not edited by hand rather than proving who made it.
+
+const CODE_PREFIX = 'DK1';
+const SIGNATURE_BYTES = 12;
+
+export interface Submission {
+  studentName: string;
+  workId: string;
+  excerptId: string;
+  points: number; // Rounded to one decimal place
+  total: number;
+  studyTime: number; // in seconds
+  timestamp: number; // Date.now() of the attempt, to the second
+}
+
+export type SubmissionCodeProblem = 'malformed' | 'unsupported-version' | 'bad-signature';
+
+export type VerifiedSubmissionCode =
+  | { ok: true; submission: Submission }
+  | { ok: false; problem: SubmissionCodeProblem };
+
+const toBase64Url = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64 + '='.repeat((4 - base64.length % 4) % 4)), ch => ch.charCodeAt(0));
+};
+
+const sign = async (message: string, classKey: string): Promise<string> => {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(classKey), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message));
+  return toBase64Url(new Uint8Array(signature).slice(0, SIGNATURE_BYTES));
+};
+
+export const createSubmissionCode = async (submission: Submission, classKey: string): Promise<string> => {
+  // A positional array keeps the code (and its QR code) short
+  const fields = [
+    submission.workId,
+    submission.excerptId,
+    Math.round(submission.points * 10),
+    submission.total,
+    submission.studyTime,
+    Math.floor(submission.timestamp / 1000),
+    submission.studentName,
+  ];
+  const payload = toBase64Url(new TextEncoder().encode(JSON.stringify(fields)));
+  const message = `${CODE_PREFIX}.${payload}`;
+  return `${message}.${await sign(message, classKey)}`;
+};
+
+const isSubmissionFields = (fields: unknown): fields is [string, string, number, number, number, number, string] =>
+  Array.isArray(fields) && fields.length === 7
+  && typeof fields[0] === 'string' && typeof fields[1] === 'string'
+  && fields.slice(2, 6).every(n => Number.isFinite(n))
+  && typeof fields[6] === 'string';
+
+export const verifySubmissionCode = async (code: string, classKey: string): Promise<VerifiedSubmissionCode> => {
+  const parts = code.trim().split('.');
+  if (parts.length !== 3) return { ok: false, problem: 'malformed' };
+  const [prefix, payload, signature] = parts;
+  if (!/^DK\d+$/.test(prefix)) return { ok: false, problem: 'malformed' };
+  if (prefix !== CODE_PREFIX) return { ok: false, problem: 'unsupported-version' };
+
+  let fields: unknown;
+  try {
+    fields = JSON.parse(new TextDecoder().decode(fromBase64Url(payload)));
+  } catch {
+    return { ok: false, problem: 'malformed' };
+  }
+  if (!isSubmissionFields(fields)) return { ok: false, problem: 'malformed' };
+  if (await sign(`${prefix}.${payload}`, classKey) !== signature) return { ok: false, problem: 'bad-signature' };
+
+  const [workId, excerptId, points, total, studyTime, seconds, studentName] = fields;
+  return { ok: true, submission: { studentName, workId, excerptId, points: points / 10, total, studyTime, timestamp: seconds * 1000 } };
+};
+
+// Codes pasted as a block of text, e.g. from a chat or a spreadsheet column.
+export const extractSubmissionCodes = (text: string): string[] =>
+  text.match(/DK\d+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g) ?? [];
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { AnswerData, Work } from './types';
+import { Submission } from './submissionCode';
+import { buildDashboard } from './teacherDashboard';
+
+const WORK: Work = {
+  id: 'w',
+  author: '',
+  title: 'ごんぎつね',
+  description: '',
+  excerpts: [
+    {
+      id: 1,
+      subtitle: '一',
+      text: '',
+      notes: {},
+      questions: [
+        { type: 'multiple-choice', q: 'q1', options: ['ごん', '兵十'], a: 'ごん' },
+        { type: 'multiple-choice', q: 'q2', options: ['ごん', '兵十'], a: '兵十' },
+        { type: 'descriptive', q: 'q3', a: '模範解答', rubric: ['要点'] },
+      ],
+    },
+    { id: 2, subtitle: '二', text: '', notes: {}, questions: [{ type: 'multiple-choice', q: 'q', options: ['ごん', '兵十'], a: 'ごん' }] },
+  ],
+};
+
+// An attempt answering q1 and q2, each right on the first round or after one wrong round
+const attempt = (timestamp: number, firstTry: [boolean, boolean], studyTime = 60): AnswerData => ({
+  answers: { '0': 'ごん', '1': '兵十' },
+  studyTime,
+  timestamp,
+  rounds: Object.fromEntries(firstTry.map((right, i) => [i, [
+    ...(right ? [] : [{ answer: '?', verdict: 'incorrect' as const, timestamp }]),
+    { answer: i === 0 ? 'ごん' : '兵十', verdict: 'correct' as const, timestamp },
+  ]])),
+});
+
+const submission = (studentName: string, excerptId: string, timestamp: number): Submission =>
+  ({ studentName, workId: 'w', excerptId, points: 1, total: 1, studyTime: 30, timestamp });
+
+describe('buildDashboard', () => {
+  it('has a column per excerpt with records, in the order of the work', () => {
+    const dashboard = buildDashboard([
+      { id: 'a', student: 'A', answers: { w: { '2': [attempt(1000, [true, true])] } } },
+      { id: 'b', student: 'B', answers: { w: { '1': [attempt(1000, [true, true])] } } },
+    ], [WORK]);
+    expect(dashboard.columns.map(column => column.key)).toEqual(['w/1', 'w/2']);
+  });
+
+  it('counts attempts at works and excerpts it does not know as skipped', () => {
+    const dashboard = buildDashboard([{
+      id: 'a',
+      student: 'A',
+      answers: { removed: { '1': [attempt(1000, [true, true]), attempt(2000, [true, true])] }, w: { '9': [attempt(1000, [true, true])] } },
+      submissions: [submission('A', '9', 1000)],
+    }], [WORK]);
+    expect(dashboard.skippedCount).toBe(4);
+    expect(dashboard.rows[0].cells).toEqual({});
+  });
+
+  it('sums up the attempts at an excerpt, taking first-try data from the first one', () => {
+    const { rows } = buildDashboard([{
+      id: 'a',
+      student: 'A',
+      answers: { w: { '1': [attempt(2000, [true, true], 40), attempt(1000, [false, true], 60)] } },
+    }], [WORK]);
+    expect(rows[0].cells['w/1']).toEqual({ attempts: 2, bestPoints: 2, total: 3, studyTime: 100, firstTryCorrect: 1, firstTryTotal: 2 });
+    expect(rows[0]).toMatchObject({ studyTime: 100, firstTryCorrect: 1, firstTryTotal: 2 });
+  });
+
+  it('counts a submission code once when the full record is also known', () => {
+    const { rows } = buildDashboard([{
+      id: 'a',
+      student: 'A',
+      answers: { w: { '2': [attempt(5000, [true, true])] } },
+      submissions: [submission('A', '2', 5999), submission('A', '2', 9000)],
+    }], [WORK]);
+    expect(rows[0].cells['w/2'].attempts).toBe(2);
+  });
+
+  it('has no first-try data for attempts known only from codes', () => {
+    const { rows } = buildDashboard([{ id: 'a', student: 'A', submissions: [submission('A', '1', 1000)] }], [WORK]);
+    expect(rows[0].cells['w/1']).toMatchObject({ firstTryCorrect: null, firstTryTotal: 0 });
+    expect(rows[0]).toMatchObject({ firstTryCorrect: 0, firstTryTotal: 0 });
+  });
+
+  it('ranks questions by the share of students who missed them on their first attempt', () => {
+    const { mostMissed } = buildDashboard([
+      { id: 'a', student: 'A', answers: { w: { '1': [attempt(1000, [false, false]), attempt(2000, [true, true])] } } },
+      { id: 'b', student: 'B', answers: { w: { '1': [attempt(1000, [true, false])] } } },
+    ], [WORK]);
+    expect(mostMissed.map(({ column, questionIndex, missed, attempted }) => [column.key, questionIndex, missed, attempted])).toEqual([
+      ['w/1', 1, 2, 2],
+      ['w/1', 0, 1, 2],
+    ]);
+  });
+
+  it('leaves written answers out of the most missed questions', () => {
+    const { mostMissed } = buildDashboard([{ id: 'a', student: 'A', answers: { w: { '1': [attempt(1000, [true, true])] } } }], [WORK]);
+    expect(mostMissed).toEqual([]);
+  });
+
+  it('lists students by name, then the records without a name', () => {
+    const { rows } = buildDashboard([
+      { id: 'file:1', student: null },
+      { id: 'student:すずき', student: 'すずき' },
+      { id: 'student:あおき', student: 'あおき' },
+    ], [WORK]);
+    expect(rows.map(row => row.id)).toEqual(['student:あおき', 'student:すずき', 'file:1']);
+  });
+});
@@ -0,0 +1,193 @@
+import { AnswerData, Question, UserAnswers, Work } from './types';
+import { getScore } from './grading';
+import { Submission } from './submissionCode';
+import { findAttemptQuestions, VOCABULARY_MODE_KEY } from './vocabulary';
+
+// --- Teacher Dashboard ---
+// Aggregates the records of many students, read from their exported record files or submission
+// codes, into a matrix of students × excerpts. Everything is scored here with getScore, exactly as
+// on the students' devices, so no server is involved. A submission code only carries a score, so
+// attempts known from codes alone have no first-try data and do not count towards most-missed.
+
+const MOST_MISSED_LIMIT = 10;
+
+export interface StudentSource {
+  id: string;
+  student: string | null; // null for a records file exported without a name
+  answers?: UserAnswers;
+  submissions?: Submission[];
+}
+
+export interface DashboardColumn {
+  key: string; // "<workId>/<excerptId>"
+  workId: string;
+  excerptId: string;
+  workTitle: string;
+  subtitle: string;
+}
+
+export interface DashboardCell {
+  attempts: number;
+  bestPoints: number; // Rounded to one decimal place
+  total: number;
+  studyTime: number; // in seconds, over all attempts
+  firstTryCorrect: number | null; // Of the first attempt with round history; null when there is none
+  firstTryTotal: number;          // Its automatically graded questions
+}
+
+export interface DashboardRow {
+  id: string; // The id of the source
+  student: string | null;
+  cells: { [columnKey: string]: DashboardCell };
+  studyTime: number;
+  firstTryCorrect: number; // Summed over the cells with first-try data
+  firstTryTotal: number;
+}
+
+export interface MissedQuestion {
+  column: DashboardColumn;
+  questionIndex: number;
+  question: Question;
+  missed: number;    // Students who did not get it right in the first round of their first attempt
+  attempted: number; // Students with a full record of an attempt at the excerpt
+}
+
+export interface Dashboard {
+  columns: DashboardColumn[];
+  rows: DashboardRow[];
+  mostMissed: MissedQuestion[];
+  skippedCount: number; // Attempts at works or excerpts not in works
+}
+
+interface ScoredAttempt {
+  points: number;
+  total: number;
+  studyTime: number;
+  firstTryCorrect: number | null;
+  firstTryTotal: number;
+}
+
+const columnKey = (workId: string, excerptId: string) => `${workId}/${excerptId}`;
+
+const roundPoints = (points: number) => Math.round(points * 10) / 10;
+
+// Codes store the timestamp to the second, so that is how they are matched against full records.
+const toSeconds = (timestamp: number) => Math.floor(timestamp / 1000);
+
+export const buildDashboard = (sources: StudentSource[], works: Work[]): Dashboard => {
+  const columns = new Map<string, DashboardColumn>();
+  const missCounts = new Map<string, MissedQuestion>();
+  let skippedCount = 0;
+
+  const findColumn = (workId: string, excerptId: string) => {
+    const key = columnKey(workId, excerptId);
+    const work = works.find(w => w.id === workId);
+    const questionSet = work && findAttemptQuestions(work, excerptId);
+    if (!work || !questionSet) return undefined;
+    if (!columns.has(key)) columns.set(key, { key, workId, excerptId, workTitle: work.title, subtitle: questionSet.subtitle });
+    return { column: columns.get(key)!, questionSet };
+  };
+
+  const rows = sources.map(({ id, student, answers = {}, submissions = [] }): DashboardRow => {
+    const attemptsByColumn = new Map<string, ScoredAttempt[]>();
+    const addAttempt = (key: string, attempt: ScoredAttempt) => {
+      attemptsByColumn.set(key, [...(attemptsByColumn.get(key) ?? []), attempt]);
+    };
+
+    Object.entries(answers).forEach(([workId, excerpts]) => {
+      Object.entries(excerpts).forEach(([excerptId, attempts]) => {
+        const found = findColumn(workId, excerptId);
+        if (!found) {
+          skippedCount += attempts.length;
+          return;
+        }
+        const { column, questionSet } = found;
+        const chronological = [...attempts].sort((a, b) => a.timestamp - b.timestamp);
+        chronological.forEach((attempt: AnswerData, index) => {
+          const score = getScore(questionSet, attempt);
+          addAttempt(column.key, { points: score.points, total: score.total, studyTime: attempt.studyTime, firstTryCorrect: score.firstTryCorrect, firstTryTotal: score.firstTryTotal });
+
+          // Only the first attempt shows what a student understood before seeing the answers
+          if (index > 0) return;
+          score.results.forEach((result, questionIndex) => {
+            if (questionSet.questions[questionIndex].type === 'descriptive') return; // Not graded on the first try
+            const missKey = `${column.key}#${questionIndex}`;
+            if (!missCounts.has(missKey)) {
+              missCounts.set(missKey, { column, questionIndex, question: questionSet.questions[questionIndex], missed: 0, attempted: 0 });
+            }
+            const count = missCounts.get(missKey)!;
+            count.attempted += 1;
+            if (attempt.rounds ? result.solvedInRound !== 1 : !result.isCorrect) count.missed += 1;
+          });
+        });
+      });
+    });
+
+    submissions.forEach(submission => {
+      const found = findColumn(submission.workId, submission.excerptId);
+      if (!found) {
+        skippedCount += 1;
+        return;
+      }
+      const known = answers[submission.workId]?.[submission.excerptId] ?? [];
+      if (known.some(attempt => toSeconds(attempt.timestamp) === toSeconds(submission.timestamp))) return;
+      addAttempt(found.column.key, { points: submission.points, total: submission.total, studyTime: submission.studyTime, firstTryCorrect: null, firstTryTotal: 0 });
+    });
+
+    const cells: DashboardRow['cells'] = {};
+    let firstTryCorrect = 0;
+    let firstTryTotal = 0;
+    attemptsByColumn.forEach((attempts, key) => {
+      const firstWithRounds = attempts.find(attempt => attempt.firstTryCorrect !== null);
+      cells[key] = {
+        attempts: attempts.length,
+        bestPoints: roundPoints(Math.max(...attempts.map(attempt => attempt.points))),
+        total: attempts[attempts.length - 1].total,
+        studyTime: attempts.reduce((sum, attempt) => sum + attempt.studyTime, 0),
+        firstTryCorrect: firstWithRounds ? firstWithRounds.firstTryCorrect : null,
+        firstTryTotal: firstWithRounds ? firstWithRounds.firstTryTotal : 0,
+      };
+      if (firstWithRounds) {
+        firstTryCorrect += firstWithRounds.firstTryCorrect ?? 0;
+        firstTryTotal += firstWithRounds.firstTryTotal;
+      }
+    });
+
+    return {
+      id,
+      student,
+      cells,
+      studyTime: Object.values(cells).reduce((sum, cell) => sum + cell.studyTime, 0),
+      firstTryCorrect,
+      firstTryTotal,
+    };
+  });
+
+  // Columns in the order of works and their excerpts, with each work's vocabulary drill last
+  const order = (column: DashboardColumn) => {
+    const work = works.find(w => w.id === column.workId)!;
+    const excerptIndex = column.excerptId === VOCABULARY_MODE_KEY
+      ? work.excerpts.length
+      : work.excerpts.findIndex(e => e.id.toString() === column.excerptId);
+    return [works.indexOf(work), excerptIndex];
+  };
+  const sortedColumns = [...columns.values()].sort((a, b) => {
+    const [workA, excerptA] = order(a);
+    const [workB, excerptB] = order(b);
+    return workA - workB || excerptA - excerptB;
+  });
+
+  const mostMissed = [...missCounts.values()]
+    .filter(count => count.missed > 0)
+    .sort((a, b) => b.missed / b.attempted - a.missed / a.attempted || b.missed - a.missed)
+    .slice(0, MOST_MISSED_LIMIT);
+
+  return {
+    columns: sortedColumns,
+    // Students by name, then the rows without a name
+    rows: [...rows].sort((a, b) =>
+      Number(a.student === null) - Number(b.student === null) || (a.student ?? '').localeCompare(b.student ?? '', 'ja')),
+    mostMissed,
+    skippedCount,
+  };
+};
@@ -1,16 +1,49 @@
 
+// How text answers are normalized before grading. Unset fields fall back to the defaults in normalization.ts.
+export interface NormalizeOptions {
+  nfkc?: boolean;             // Unify full-width / half-width characters (ＡＢＣ → ABC, ﾊﾟ → パ)
+  stripPunctuation?: boolean; // Ignore 、。「」・ and other punctuation
+  stripWhitespace?: boolean;  // Ignore spaces, including full-width spaces and line breaks
+  foldKana?: boolean;         // Treat katakana as hiragana (ゴン = ごん)
+}
+
+// How closely a 'highlight' selection has to match the expected span.
+export interface HighlightTolerance {
+  ignorePunctuation?: boolean; // Default true: leading/trailing punctuation and spaces on either side are ignored
+  extraChars?: number;         // Default 0: how many characters each end may be off by
+}
+
 export type Question = {
-  type: 'multiple-choice' | 'extraction' | 'fill-in-the-blank';
+  type: 'multiple-choice' | 'extraction' | 'fill-in-the-blank' | 'descriptive' | 'sequence' | 'highlight';
   q: string;
   options?: string[];
+  // For 'descriptive', the model answer; for 'sequence', the items in the correct order;
+  // for 'highlight', the expected span(s) of the excerpt text (any occurrence is accepted);
+  // for 'multiple-choice', an array makes it a multi-select question answered with checkboxes
   a: string | string[];
+  // Default 'all-or-nothing'. With 'partial', 'sequence' earns credit per correct adjacent pair,
+  // 'fill-in-the-blank' per correct blank, and multi-select 'multiple-choice' earns
+  // (right picks - wrong picks) / number of correct options.
+  scoring?: 'all-or-nothing' | 'partial';
+  normalize?: NormalizeOptions; // Per-question override, e.g. { stripPunctuation: false } when punctuation matters
+  charLimit?: { min?: number; max: number }; // 'descriptive' only: allowed answer length in characters
+  rubric?: string[]; // 'descriptive' only: key points a good answer should cover
+  highlightTolerance?: HighlightTolerance; // 'highlight' only
 };
 
+// A reading shown above text[start, end) of the excerpt text.
+export interface Furigana {
+  start: number;
+  end: number;
+  reading: string;
+}
+
 export interface Excerpt {
   id: number;
   subtitle: string;
   text: string;
   notes: Record<string, string>;
+  furigana?: Furigana[];
   questions: Question[];
 }
 
@@ -22,12 +55,47 @@ export interface Work {
   excerpts: Excerpt[];
 }
 
+// What the home page needs to list a work, available before the work itself is loaded.
+export interface WorkSummary {
+  id: string;
+  author: string;
+  title: string;
+  description: string;
+  excerptCount: number;
+  file: string; // File name in content/works/
+}
+
+// 'highlight' answers are stored as [start, end] character offsets into Excerpt.text, as strings.
 export type UserAnswer = string | string[];
 
+export type Verdict = 'correct' | 'partial' | 'incorrect' | 'pending'; // 'pending': written answer awaiting assessment
+
+// One grading round of one question, as submitted by the student.
+export interface GradingRound {
+  answer: UserAnswer;
+  verdict: Verdict;
+  timestamp: number; // Date.now()
+}
+
+// Which rubric points a written answer covers, as ticked on the result page or suggested by a grader.
+export interface RubricAssessment {
+  covered: number[]; // Indices into Question.rubric
+  assessedBy: 'self' | 'ai';
+  grader?: string;   // Name of the automatic grader when assessedBy is 'ai'
+  feedback?: string; // Grader feedback shown to the student
+  timestamp: number; // Date.now()
+}
+
 export interface AnswerData {
   answers: { [questionIndex: string]: UserAnswer };
   studyTime: number; // in seconds
   timestamp: number; // Date.now()
+  // Per-question history of grading rounds (round N is at index N-1). A question stops
+  // being graded once correct, so its last entry is the round it was solved in.
+  // Missing on records saved before round history was introduced.
+  rounds?: { [questionIndex: string]: GradingRound[] };
+  // Rubric assessments of 'descriptive' questions, made after the quiz on the result page.
+  assessments?: { [questionIndex: string]: RubricAssessment };
 }
 
 export interface UserAnswers {
@@ -0,0 +1,7 @@
+/// <reference types="vite/client" />
+
+declare module 'virtual:work-index' {
+  import { WorkSummary } from './types';
+  const index: WorkSummary[];
+  export default index;
+}
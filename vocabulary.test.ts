@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { Work } from './types';
+import { getScore } from './grading';
+import { buildVocabularyDrill, findAttemptQuestions, VOCABULARY_MODE_KEY } from './vocabulary';
+
+const work = (notes: Record<string, string>): Work => ({
+  id: 'w',
+  author: '',
+  title: '',
+  description: '',
+  excerpts: [{ id: 1, subtitle: '抜粋', text: '本文', notes, questions: [{ type: 'extraction', q: 'q', a: '本文' }] }],
+});
+
+const NOTES = {
+  '1': '真心（まごころ）：本当の気持ち。',
+  '2': '出来心（できごころ）：ふと起こった悪い考え。',
+  '3': '償い（つぐない）：埋め合わせをすること。',
+  '4': '土間（どま）：床を張らない所。',
+  '5': '火縄銃（ひなわじゅう）：昔の鉄砲。',
+};
+
+// A fixed sequence, so shuffles are repeatable
+const seededRandom = (seed: number) => () => {
+  seed = (seed * 16807) % 2147483647;
+  return seed / 2147483647;
+};
+
+describe('buildVocabularyDrill', () => {
+  it('asks each headword in glossary order with four choices, one of them its definition', () => {
+    const { questions } = buildVocabularyDrill(work(NOTES), seededRandom(1));
+    expect(questions.map(q => q.q.slice(0, q.q.indexOf('」') + 1))).toEqual(['「償い」', '「出来心」', '「土間」', '「火縄銃」', '「真心」']);
+    questions.forEach(q => {
+      expect(q.options).toHaveLength(4);
+      expect(new Set(q.options).size).toBe(4);
+      expect(q.options).toContain(q.a);
+    });
+  });
+
+  it('offers fewer choices when the work has fewer notes', () => {
+    const { questions } = buildVocabularyDrill(work({ '1': NOTES['1'], '2': NOTES['2'] }));
+    expect(questions.map(q => q.options)).toEqual([
+      expect.arrayContaining(['ふと起こった悪い考え。', '本当の気持ち。']),
+      expect.arrayContaining(['ふと起こった悪い考え。', '本当の気持ち。']),
+    ]);
+  });
+
+  it('leaves out headwords whose definition another headword shares', () => {
+    const { questions } = buildVocabularyDrill(work({ ...NOTES, '6': '誠（まこと）：本当の気持ち。' }));
+    expect(questions.some(q => q.a === '本当の気持ち。')).toBe(false);
+    expect(questions).toHaveLength(4);
+  });
+
+  it('has no questions for fewer than two notes', () => {
+    expect(buildVocabularyDrill(work({ '1': NOTES['1'] })).questions).toEqual([]);
+  });
+
+  it('grades stored answers the same however the choices were shuffled', () => {
+    const first = buildVocabularyDrill(work(NOTES), seededRandom(1));
+    const second = buildVocabularyDrill(work(NOTES), seededRandom(2));
+    const answers = Object.fromEntries(first.questions.map((q, i) => [i, q.a as string]));
+    const attempt = { answers, studyTime: 0, timestamp: 0 };
+    expect(getScore(second, attempt).correct).toBe(5);
+  });
+});
+
+describe('findAttemptQuestions', () => {
+  it('finds an excerpt by its id', () => {
+    expect(findAttemptQuestions(work(NOTES), '1')?.subtitle).toBe('抜粋');
+  });
+
+  it('builds the drill for the vocabulary key', () => {
+    const found = findAttemptQuestions(work(NOTES), VOCABULARY_MODE_KEY);
+    expect(found?.subtitle).toBe('語句ドリル');
+    expect(found?.questions).toHaveLength(5);
+  });
+
+  it('is undefined for an excerpt that no longer exists', () => {
+    expect(findAttemptQuestions(work(NOTES), '2')).toBeUndefined();
+  });
+});
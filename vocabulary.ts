@@ -0,0 +1,52 @@
+import { Excerpt, Question, Work } from './types';
+import { buildGlossary } from './glossary';
+
+// --- Vocabulary Drill ---
+// A multiple-choice drill generated from a work's notes: each headword is asked with its own
+// definition among definitions of the work's other notes. Attempts are graded by grading.ts like
+// any excerpt and stored in UserAnswers under VOCABULARY_MODE_KEY instead of an excerpt id.
+
+export const VOCABULARY_MODE_KEY = 'vocabulary';
+
+const CHOICE_COUNT = 4;
+
+export interface VocabularyDrill {
+  questions: Question[]; // In glossary order, so question indexes stay stable between attempts
+}
+
+const shuffle = <T>(items: T[], random: () => number): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+// Headwords whose definition cannot be told apart from the others' are left out. A work needs at
+// least two usable notes for a drill; otherwise there are no questions.
+export const buildVocabularyDrill = (work: Work, random: () => number = Math.random): VocabularyDrill => {
+  const entries = buildGlossary([work]);
+  const definitions = entries.map(entry => entry.definitions[0]);
+  const usable = entries.filter((_, i) => definitions.indexOf(definitions[i]) === definitions.lastIndexOf(definitions[i]));
+  if (usable.length < 2) return { questions: [] };
+
+  const questions = usable.map((entry): Question => {
+    const answer = entry.definitions[0];
+    const distractors = shuffle(usable.map(e => e.definitions[0]).filter(d => d !== answer), random).slice(0, CHOICE_COUNT - 1);
+    return {
+      type: 'multiple-choice',
+      q: `「${entry.headword}」${entry.reading ? `（${entry.reading}）` : ''}の意味として正しいものを選びなさい。`,
+      options: shuffle([answer, ...distractors], random),
+      a: answer,
+    };
+  });
+  return { questions };
+};
+
+// The questions an attempt stored under excerptId (an excerpt id or VOCABULARY_MODE_KEY) answered,
+// with a subtitle to show for them. Undefined when the excerpt no longer exists.
+export const findAttemptQuestions = (work: Work, excerptId: string): (Pick<Excerpt, 'subtitle' | 'questions'> & { text?: string }) | undefined =>
+  excerptId === VOCABULARY_MODE_KEY
+    ? { subtitle: '語句ドリル', ...buildVocabularyDrill(work) }
+    : work.excerpts.find(e => e.id.toString() === excerptId);